@@ -23,7 +23,7 @@ const auth = quickAuth({
     fields: {
       name: z.string().min(2, 'Name must be at least 2 characters').optional(),
       age: z.number().min(13, 'You must be at least 13 years old').optional(),
-      role: z.enum(['user', 'admin', 'moderator']).default('user'),
+      newsletter: z.boolean().default(false),
       bio: z.string().max(500, 'Bio must be less than 500 characters').optional(),
     },
     
@@ -89,7 +89,7 @@ app.listen(PORT, () => {
   console.log('');
   console.log('This example includes:');
   console.log('  - Custom password validation (min 8 chars, uppercase, lowercase, number)');
-  console.log('  - Custom fields: name, age, role, bio');
+  console.log('  - Custom fields: name, age, newsletter, bio');
   console.log('  - Custom validator for name format and bio content');
   console.log('');
   console.log('Available endpoints:');
@@ -102,7 +102,7 @@ app.listen(PORT, () => {
   console.log('Example registration with custom fields:');
   console.log("  curl -X POST http://localhost:" + PORT + "/auth/register \\");
   console.log("    -H 'Content-Type: application/json' \\");
-  console.log('    -d \'{\"email\":\"john@example.com\",\"password\":\"SecurePass123\",\"name\":\"John Doe\",\"age\":25,\"role\":\"user\",\"bio\":\"Software developer\"}\'');
+  console.log('    -d \'{\"email\":\"john@example.com\",\"password\":\"SecurePass123\",\"name\":\"John Doe\",\"age\":25,\"newsletter\":true,\"bio\":\"Software developer\"}\'');
   console.log('');
   console.log('Example with validation errors:');
   console.log("  curl -X POST http://localhost:" + PORT + "/auth/register \\");
@@ -7,6 +7,12 @@ app.use(express.json());
 // Initialize quick auth
 const auth = quickAuth({
   secret: 'my-super-secret-key-change-in-production',
+  rbac: {
+    roles: {
+      admin: ['*'],
+      user: ['posts:read'],
+    },
+  },
 });
 
 // Apply auth middleware globally
@@ -22,10 +28,7 @@ app.get('/', (req, res) => {
 });
 
 // Auth routes
-app.post('/auth/register', auth.register());
-app.post('/auth/login', auth.login());
-app.post('/auth/logout', auth.requireAuth(), auth.logout());
-app.get('/auth/me', auth.requireAuth(), auth.me());
+app.use(auth.router());
 
 // Protected route
 app.get('/api/protected', auth.requireAuth(), (req, res) => {
@@ -37,8 +40,7 @@ app.get('/api/protected', auth.requireAuth(), (req, res) => {
 });
 
 // Admin-only route example
-app.get('/api/admin', auth.requireAuth(), (req, res) => {
-  // You can add role checking here
+app.get('/api/admin', auth.requireRole('admin'), (req, res) => {
   res.json({
     message: 'Admin area',
     user: req.user
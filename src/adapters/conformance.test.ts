@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { runAdapterConformanceTests } from '../testing';
+import { MemoryAdapter } from './memory';
+import { FileAdapter } from './file';
+import { SQLiteAdapter } from './sqlite';
+
+const ALL_OPTIONAL_METHODS = {
+  refreshTokens: true,
+  verificationTokens: true,
+  verificationTokenAttempts: true,
+  linkedAccounts: true,
+  listUsers: true,
+  apiKeys: true,
+  loginSessions: true,
+};
+
+runAdapterConformanceTests('MemoryAdapter', () => new MemoryAdapter(), ALL_OPTIONAL_METHODS);
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quick-auth-'));
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+runAdapterConformanceTests(
+  'FileAdapter',
+  () => new FileAdapter({ path: path.join(tempDir, `${crypto.randomUUID()}.json`) }),
+  ALL_OPTIONAL_METHODS
+);
+
+runAdapterConformanceTests(
+  'SQLiteAdapter',
+  () => new SQLiteAdapter({ database: new Database(':memory:') }),
+  ALL_OPTIONAL_METHODS
+);
@@ -0,0 +1,41 @@
+// Adapters signal these cases by `code`, so custom adapters can follow the contract
+// without importing the classes
+
+export class UserNotFoundError extends Error {
+  readonly code = 'USER_NOT_FOUND';
+
+  constructor(id: string) {
+    super(`User not found: ${id}`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+export class DuplicateEmailError extends Error {
+  readonly code = 'DUPLICATE_EMAIL';
+
+  constructor(email: string) {
+    super(`User with this email already exists: ${email}`);
+    this.name = 'DuplicateEmailError';
+  }
+}
+
+export class AccountAlreadyLinkedError extends Error {
+  readonly code = 'ACCOUNT_ALREADY_LINKED';
+
+  constructor(provider: string, providerAccountId: string) {
+    super(`Account is already linked: ${provider}:${providerAccountId}`);
+    this.name = 'AccountAlreadyLinkedError';
+  }
+}
+
+export function isUserNotFoundError(error: unknown): boolean {
+  return (error as { code?: unknown })?.code === 'USER_NOT_FOUND';
+}
+
+export function isDuplicateEmailError(error: unknown): boolean {
+  return (error as { code?: unknown })?.code === 'DUPLICATE_EMAIL';
+}
+
+export function isAccountAlreadyLinkedError(error: unknown): boolean {
+  return (error as { code?: unknown })?.code === 'ACCOUNT_ALREADY_LINKED';
+}
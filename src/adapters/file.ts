@@ -0,0 +1,514 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  DatabaseAdapter,
+  RevocationStore,
+  SessionStore,
+  SessionRecord,
+  User,
+  CreateUserData,
+  RefreshTokenRecord,
+  CreateRefreshTokenData,
+  VerificationTokenRecord,
+  CreateVerificationTokenData,
+  VerificationTokenType,
+  LinkedAccount,
+  CreateLinkedAccountData,
+  ListUsersQuery,
+  ApiKeyRecord,
+  CreateApiKeyData,
+  LoginSession,
+  CreateLoginSessionData,
+} from '../types';
+import { serialize, deserialize } from './serialize';
+import { AccountAlreadyLinkedError, DuplicateEmailError, UserNotFoundError } from './errors';
+
+export interface FileAdapterOptions {
+  path: string;
+  // How long to wait for another writer before giving up (ms)
+  lockTimeout?: number;
+  // Lock files older than this are assumed to belong to a crashed process (ms)
+  staleLockAge?: number;
+}
+
+interface FileData {
+  version: 1;
+  users: Record<string, User>;
+  refreshTokens: Record<string, RefreshTokenRecord>;
+  verificationTokens: Record<string, VerificationTokenRecord>;
+  revokedTokens: Record<string, Date>;
+  userCutoffs: Record<string, Date>;
+  sessions: Record<string, SessionRecord>;
+  linkedAccounts: Record<string, LinkedAccount>;
+  apiKeys: Record<string, ApiKeyRecord>;
+  loginSessions: Record<string, LoginSession>;
+}
+
+const DEFAULT_LOCK_TIMEOUT = 5000;
+const DEFAULT_STALE_LOCK_AGE = 30000;
+const LOCK_RETRY_DELAY = 20;
+
+function emptyData(): FileData {
+  return {
+    version: 1,
+    users: {},
+    refreshTokens: {},
+    verificationTokens: {},
+    revokedTokens: {},
+    userCutoffs: {},
+    sessions: {},
+    linkedAccounts: {},
+    apiKeys: {},
+    loginSessions: {},
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class FileAdapter implements DatabaseAdapter, RevocationStore, SessionStore {
+  private filePath: string;
+  private lockPath: string;
+  private lockTimeout: number;
+  private staleLockAge: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileAdapterOptions) {
+    this.filePath = path.resolve(options.path);
+    this.lockPath = this.filePath + '.lock';
+    this.lockTimeout = options.lockTimeout ?? DEFAULT_LOCK_TIMEOUT;
+    this.staleLockAge = options.staleLockAge ?? DEFAULT_STALE_LOCK_AGE;
+  }
+
+  async findUserByEmail(email: string): Promise<User | null> {
+    const data = await this.read();
+    return this.findByEmail(data, email);
+  }
+
+  async findUserById(id: string): Promise<User | null> {
+    const data = await this.read();
+    return data.users[id] || null;
+  }
+
+  async createUser(input: CreateUserData): Promise<User> {
+    return this.write((data) => {
+      if (this.findByEmail(data, input.email)) {
+        throw new DuplicateEmailError(input.email);
+      }
+
+      const user: User = {
+        id: crypto.randomUUID(),
+        ...input,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      data.users[user.id] = user;
+      return user;
+    });
+  }
+
+  async updateUser(id: string, input: Partial<User>): Promise<User> {
+    return this.write((data) => {
+      const user = data.users[id];
+      if (!user) {
+        throw new UserNotFoundError(id);
+      }
+
+      if (input.email && input.email.toLowerCase() !== user.email.toLowerCase()) {
+        if (this.findByEmail(data, input.email)) {
+          throw new DuplicateEmailError(input.email);
+        }
+      }
+
+      const updated = {
+        ...user,
+        ...input,
+        id,
+        updatedAt: new Date(),
+      };
+      data.users[id] = updated;
+      return updated;
+    });
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await this.write((data) => {
+      delete data.users[id];
+
+      for (const record of Object.values(data.refreshTokens)) {
+        if (record.userId === id) delete data.refreshTokens[record.id];
+      }
+      for (const record of Object.values(data.verificationTokens)) {
+        if (record.userId === id) delete data.verificationTokens[record.id];
+      }
+      for (const session of Object.values(data.sessions)) {
+        if (session.userId === id) delete data.sessions[session.id];
+      }
+      for (const account of Object.values(data.linkedAccounts)) {
+        if (account.userId === id) delete data.linkedAccounts[account.id];
+      }
+      for (const apiKey of Object.values(data.apiKeys)) {
+        if (apiKey.userId === id) delete data.apiKeys[apiKey.id];
+      }
+      for (const session of Object.values(data.loginSessions)) {
+        if (session.userId === id) delete data.loginSessions[session.id];
+      }
+    });
+  }
+
+  async listUsers(query: ListUsersQuery = {}): Promise<User[]> {
+    const data = await this.read();
+    const offset = query.offset ?? 0;
+    const users = Object.values(data.users).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return users.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  async createRefreshToken(input: CreateRefreshTokenData): Promise<RefreshTokenRecord> {
+    return this.write((data) => {
+      const record: RefreshTokenRecord = {
+        id: crypto.randomUUID(),
+        ...input,
+        createdAt: new Date(),
+      };
+      data.refreshTokens[record.id] = record;
+      return record;
+    });
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const data = await this.read();
+    return Object.values(data.refreshTokens).find((record) => record.tokenHash === tokenHash) || null;
+  }
+
+  async markRefreshTokenUsed(id: string): Promise<boolean> {
+    return this.write((data) => {
+      const record = data.refreshTokens[id];
+      if (!record || record.usedAt || record.revokedAt) {
+        return false;
+      }
+
+      record.usedAt = new Date();
+      return true;
+    });
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.write((data) => {
+      const now = new Date();
+      for (const record of Object.values(data.refreshTokens)) {
+        if (record.familyId === familyId && !record.revokedAt) {
+          record.revokedAt = now;
+        }
+      }
+    });
+  }
+
+  async revokeUserRefreshTokens(userId: string, before: Date = new Date()): Promise<void> {
+    await this.write((data) => {
+      const now = new Date();
+      for (const record of Object.values(data.refreshTokens)) {
+        if (record.userId === userId && record.createdAt <= before && !record.revokedAt) {
+          record.revokedAt = now;
+        }
+      }
+    });
+  }
+
+  async createVerificationToken(input: CreateVerificationTokenData): Promise<VerificationTokenRecord> {
+    return this.write((data) => {
+      const record: VerificationTokenRecord = {
+        id: crypto.randomUUID(),
+        ...input,
+        createdAt: new Date(),
+      };
+      data.verificationTokens[record.id] = record;
+      return record;
+    });
+  }
+
+  async findVerificationToken(tokenHash: string): Promise<VerificationTokenRecord | null> {
+    const data = await this.read();
+    return Object.values(data.verificationTokens).find((record) => record.tokenHash === tokenHash) || null;
+  }
+
+  async markVerificationTokenUsed(id: string): Promise<boolean> {
+    return this.write((data) => {
+      const record = data.verificationTokens[id];
+      if (!record || record.usedAt) {
+        return false;
+      }
+
+      record.usedAt = new Date();
+      return true;
+    });
+  }
+
+  async incrementVerificationTokenAttempts(id: string): Promise<number> {
+    return this.write((data) => {
+      const record = data.verificationTokens[id];
+      if (!record) return 0;
+
+      record.attempts = (record.attempts ?? 0) + 1;
+      return record.attempts;
+    });
+  }
+
+  async deleteVerificationTokens(userId: string, type: VerificationTokenType): Promise<void> {
+    await this.write((data) => {
+      for (const record of Object.values(data.verificationTokens)) {
+        if (record.userId === userId && record.type === type) {
+          delete data.verificationTokens[record.id];
+        }
+      }
+    });
+  }
+
+  async linkAccount(input: CreateLinkedAccountData): Promise<LinkedAccount> {
+    return this.write((data) => {
+      if (this.findLinked(data, input.provider, input.providerAccountId)) {
+        throw new AccountAlreadyLinkedError(input.provider, input.providerAccountId);
+      }
+
+      const account: LinkedAccount = {
+        id: crypto.randomUUID(),
+        ...input,
+        createdAt: new Date(),
+      };
+      data.linkedAccounts[account.id] = account;
+      return account;
+    });
+  }
+
+  async findLinkedAccount(provider: string, providerAccountId: string): Promise<LinkedAccount | null> {
+    const data = await this.read();
+    return this.findLinked(data, provider, providerAccountId);
+  }
+
+  async listLinkedAccounts(userId: string): Promise<LinkedAccount[]> {
+    const data = await this.read();
+    return Object.values(data.linkedAccounts).filter((account) => account.userId === userId);
+  }
+
+  async unlinkAccount(provider: string, providerAccountId: string): Promise<void> {
+    await this.write((data) => {
+      const account = this.findLinked(data, provider, providerAccountId);
+      if (account) delete data.linkedAccounts[account.id];
+    });
+  }
+
+  async createApiKey(input: CreateApiKeyData): Promise<ApiKeyRecord> {
+    return this.write((data) => {
+      const record: ApiKeyRecord = {
+        id: crypto.randomUUID(),
+        ...input,
+        createdAt: new Date(),
+      };
+      data.apiKeys[record.id] = record;
+      return record;
+    });
+  }
+
+  async findApiKeyByPrefix(prefix: string): Promise<ApiKeyRecord | null> {
+    const data = await this.read();
+    return Object.values(data.apiKeys).find((apiKey) => apiKey.prefix === prefix) || null;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    const data = await this.read();
+    return Object.values(data.apiKeys).filter((apiKey) => apiKey.userId === userId);
+  }
+
+  async updateApiKey(id: string, changes: Partial<Pick<ApiKeyRecord, 'lastUsedAt' | 'revokedAt'>>): Promise<void> {
+    await this.write((data) => {
+      const record = data.apiKeys[id];
+      if (record) {
+        Object.assign(record, changes);
+      }
+    });
+  }
+
+  async createLoginSession(input: CreateLoginSessionData): Promise<LoginSession> {
+    return this.write((data) => {
+      const now = new Date();
+      const session: LoginSession = { ...input, createdAt: now, lastSeenAt: now };
+      data.loginSessions[session.id] = session;
+      return session;
+    });
+  }
+
+  async findLoginSession(id: string): Promise<LoginSession | null> {
+    const data = await this.read();
+    return data.loginSessions[id] || null;
+  }
+
+  async listLoginSessions(userId: string): Promise<LoginSession[]> {
+    const data = await this.read();
+    return Object.values(data.loginSessions).filter((session) => session.userId === userId);
+  }
+
+  async updateLoginSession(
+    id: string,
+    changes: Partial<Pick<LoginSession, 'lastSeenAt' | 'expiresAt' | 'revokedAt'>>
+  ): Promise<void> {
+    await this.write((data) => {
+      const session = data.loginSessions[id];
+      if (session) {
+        Object.assign(session, changes);
+      }
+    });
+  }
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    await this.write((data) => {
+      const now = Date.now();
+      for (const [key, expiry] of Object.entries(data.revokedTokens)) {
+        if (expiry.getTime() <= now) delete data.revokedTokens[key];
+      }
+      data.revokedTokens[jti] = expiresAt;
+    });
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const data = await this.read();
+    const expiresAt = data.revokedTokens[jti];
+    return expiresAt !== undefined && expiresAt.getTime() > Date.now();
+  }
+
+  async revokeUserTokens(userId: string, before: Date): Promise<void> {
+    await this.write((data) => {
+      const current = data.userCutoffs[userId];
+      if (!current || current < before) {
+        data.userCutoffs[userId] = before;
+      }
+    });
+  }
+
+  async getUserTokensRevokedBefore(userId: string): Promise<Date | null> {
+    const data = await this.read();
+    return data.userCutoffs[userId] || null;
+  }
+
+  async createSession(session: SessionRecord): Promise<void> {
+    await this.write((data) => {
+      const now = Date.now();
+      for (const existing of Object.values(data.sessions)) {
+        if (existing.expiresAt.getTime() <= now) delete data.sessions[existing.id];
+      }
+      data.sessions[session.id] = session;
+    });
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    const data = await this.read();
+    return data.sessions[id] || null;
+  }
+
+  async touchSession(id: string, lastSeenAt: Date): Promise<void> {
+    await this.write((data) => {
+      const session = data.sessions[id];
+      if (session) {
+        session.lastSeenAt = lastSeenAt;
+      }
+    });
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.write((data) => {
+      delete data.sessions[id];
+    });
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    await this.write((data) => {
+      for (const session of Object.values(data.sessions)) {
+        if (session.userId === userId) delete data.sessions[session.id];
+      }
+    });
+  }
+
+  private findByEmail(data: FileData, email: string): User | null {
+    const normalized = email.toLowerCase();
+    return Object.values(data.users).find((user) => user.email.toLowerCase() === normalized) || null;
+  }
+
+  private findLinked(data: FileData, provider: string, providerAccountId: string): LinkedAccount | null {
+    return Object.values(data.linkedAccounts).find(
+      (account) => account.provider === provider && account.providerAccountId === providerAccountId
+    ) || null;
+  }
+
+  // Writes replace the whole file with a rename, so readers never see a partial document
+  private async read(): Promise<FileData> {
+    try {
+      return { ...emptyData(), ...deserialize<FileData>(await fs.readFile(this.filePath, 'utf8')) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return emptyData();
+      }
+      throw error;
+    }
+  }
+
+  private async write<T>(mutate: (data: FileData) => T): Promise<T> {
+    // Calls from this process queue up here; the lock file covers other processes
+    const run = this.queue.then(() => this.withLock(async () => {
+      const data = await this.read();
+      const result = mutate(data);
+
+      const tempPath = `${this.filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+      const handle = await fs.open(tempPath, 'w');
+      try {
+        await handle.writeFile(serialize(data, 2));
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tempPath, this.filePath);
+
+      return result;
+    }));
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.acquireLock();
+    try {
+      return await fn();
+    } finally {
+      await fs.unlink(this.lockPath).catch(() => undefined);
+    }
+  }
+
+  private async acquireLock(): Promise<void> {
+    const deadline = Date.now() + this.lockTimeout;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stat = await fs.stat(this.lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > this.staleLockAge) {
+        await fs.unlink(this.lockPath).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for lock on ${this.filePath}`);
+      }
+      await sleep(LOCK_RETRY_DELAY);
+    }
+  }
+}
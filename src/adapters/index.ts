@@ -1 +1,13 @@
 export { MemoryAdapter } from './memory';
+export { FileAdapter } from './file';
+export type { FileAdapterOptions } from './file';
+export { SQLiteAdapter } from './sqlite';
+export type { SQLiteAdapterOptions, SQLiteDatabase, SQLiteStatement } from './sqlite';
+export {
+  UserNotFoundError,
+  DuplicateEmailError,
+  AccountAlreadyLinkedError,
+  isUserNotFoundError,
+  isDuplicateEmailError,
+  isAccountAlreadyLinkedError,
+} from './errors';
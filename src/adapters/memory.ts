@@ -1,8 +1,35 @@
-import type { DatabaseAdapter, User, CreateUserData } from '../types';
+import crypto from 'crypto';
+import type {
+  DatabaseAdapter,
+  User,
+  CreateUserData,
+  RefreshTokenRecord,
+  CreateRefreshTokenData,
+  VerificationTokenRecord,
+  CreateVerificationTokenData,
+  VerificationTokenType,
+  LinkedAccount,
+  CreateLinkedAccountData,
+  ListUsersQuery,
+  ApiKeyRecord,
+  CreateApiKeyData,
+  LoginSession,
+  CreateLoginSessionData,
+} from '../types';
+import { AccountAlreadyLinkedError, DuplicateEmailError, UserNotFoundError } from './errors';
 
 export class MemoryAdapter implements DatabaseAdapter {
   private users: Map<string, User> = new Map();
   private emailIndex: Map<string, string> = new Map();
+  private refreshTokens: Map<string, RefreshTokenRecord> = new Map();
+  private refreshTokenIndex: Map<string, string> = new Map();
+  private verificationTokens: Map<string, VerificationTokenRecord> = new Map();
+  private verificationTokenIndex: Map<string, string> = new Map();
+  // Keyed by `${provider}:${providerAccountId}`
+  private linkedAccounts: Map<string, LinkedAccount> = new Map();
+  // Keyed by prefix
+  private apiKeys: Map<string, ApiKeyRecord> = new Map();
+  private loginSessions: Map<string, LoginSession> = new Map();
 
   async findUserByEmail(email: string): Promise<User | null> {
     const id = this.emailIndex.get(email.toLowerCase());
@@ -15,6 +42,10 @@ export class MemoryAdapter implements DatabaseAdapter {
   }
 
   async createUser(data: CreateUserData): Promise<User> {
+    if (this.emailIndex.has(data.email.toLowerCase())) {
+      throw new DuplicateEmailError(data.email);
+    }
+
     const id = crypto.randomUUID();
     const user: User = {
       id,
@@ -32,20 +63,27 @@ export class MemoryAdapter implements DatabaseAdapter {
   async updateUser(id: string, data: Partial<User>): Promise<User> {
     const user = this.users.get(id);
     if (!user) {
-      throw new Error('User not found');
+      throw new UserNotFoundError(id);
+    }
+
+    const newEmail = data.email?.toLowerCase();
+    const emailChanged = !!newEmail && newEmail !== user.email.toLowerCase();
+    if (emailChanged && this.emailIndex.has(newEmail)) {
+      throw new DuplicateEmailError(data.email as string);
     }
 
     const updated = {
       ...user,
       ...data,
+      id,
       updatedAt: new Date(),
     };
 
     this.users.set(id, updated);
 
-    if (data.email && data.email !== user.email) {
+    if (emailChanged) {
       this.emailIndex.delete(user.email.toLowerCase());
-      this.emailIndex.set(data.email.toLowerCase(), id);
+      this.emailIndex.set(newEmail, id);
     }
 
     return updated;
@@ -57,10 +95,232 @@ export class MemoryAdapter implements DatabaseAdapter {
       this.emailIndex.delete(user.email.toLowerCase());
       this.users.delete(id);
     }
+
+    for (const record of this.refreshTokens.values()) {
+      if (record.userId === id) {
+        this.refreshTokens.delete(record.id);
+        this.refreshTokenIndex.delete(record.tokenHash);
+      }
+    }
+
+    for (const record of this.verificationTokens.values()) {
+      if (record.userId === id) {
+        this.verificationTokens.delete(record.id);
+        this.verificationTokenIndex.delete(record.tokenHash);
+      }
+    }
+
+    for (const [key, account] of this.linkedAccounts) {
+      if (account.userId === id) {
+        this.linkedAccounts.delete(key);
+      }
+    }
+
+    for (const [prefix, apiKey] of this.apiKeys) {
+      if (apiKey.userId === id) {
+        this.apiKeys.delete(prefix);
+      }
+    }
+
+    for (const [sessionId, session] of this.loginSessions) {
+      if (session.userId === id) {
+        this.loginSessions.delete(sessionId);
+      }
+    }
+  }
+
+  async listUsers(query: ListUsersQuery = {}): Promise<User[]> {
+    const offset = query.offset ?? 0;
+    const users = [...this.users.values()];
+    return users.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  async createRefreshToken(data: CreateRefreshTokenData): Promise<RefreshTokenRecord> {
+    const record: RefreshTokenRecord = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+
+    this.refreshTokens.set(record.id, record);
+    this.refreshTokenIndex.set(record.tokenHash, record.id);
+
+    return record;
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const id = this.refreshTokenIndex.get(tokenHash);
+    if (!id) return null;
+    return this.refreshTokens.get(id) || null;
+  }
+
+  async markRefreshTokenUsed(id: string): Promise<boolean> {
+    const record = this.refreshTokens.get(id);
+    if (!record || record.usedAt || record.revokedAt) {
+      return false;
+    }
+
+    record.usedAt = new Date();
+    return true;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    const now = new Date();
+    for (const record of this.refreshTokens.values()) {
+      if (record.familyId === familyId && !record.revokedAt) {
+        record.revokedAt = now;
+      }
+    }
+  }
+
+  async revokeUserRefreshTokens(userId: string, before: Date = new Date()): Promise<void> {
+    const now = new Date();
+    for (const record of this.refreshTokens.values()) {
+      if (record.userId === userId && record.createdAt <= before && !record.revokedAt) {
+        record.revokedAt = now;
+      }
+    }
+  }
+
+  async createVerificationToken(data: CreateVerificationTokenData): Promise<VerificationTokenRecord> {
+    const record: VerificationTokenRecord = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+
+    this.verificationTokens.set(record.id, record);
+    this.verificationTokenIndex.set(record.tokenHash, record.id);
+
+    return record;
+  }
+
+  async findVerificationToken(tokenHash: string): Promise<VerificationTokenRecord | null> {
+    const id = this.verificationTokenIndex.get(tokenHash);
+    if (!id) return null;
+    return this.verificationTokens.get(id) || null;
+  }
+
+  async markVerificationTokenUsed(id: string): Promise<boolean> {
+    const record = this.verificationTokens.get(id);
+    if (!record || record.usedAt) {
+      return false;
+    }
+
+    record.usedAt = new Date();
+    return true;
+  }
+
+  async incrementVerificationTokenAttempts(id: string): Promise<number> {
+    const record = this.verificationTokens.get(id);
+    if (!record) return 0;
+
+    record.attempts = (record.attempts ?? 0) + 1;
+    return record.attempts;
+  }
+
+  async deleteVerificationTokens(userId: string, type: VerificationTokenType): Promise<void> {
+    for (const record of this.verificationTokens.values()) {
+      if (record.userId === userId && record.type === type) {
+        this.verificationTokens.delete(record.id);
+        this.verificationTokenIndex.delete(record.tokenHash);
+      }
+    }
+  }
+
+  async linkAccount(data: CreateLinkedAccountData): Promise<LinkedAccount> {
+    const key = `${data.provider}:${data.providerAccountId}`;
+    if (this.linkedAccounts.has(key)) {
+      throw new AccountAlreadyLinkedError(data.provider, data.providerAccountId);
+    }
+
+    const account: LinkedAccount = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+    this.linkedAccounts.set(key, account);
+
+    return account;
+  }
+
+  async findLinkedAccount(provider: string, providerAccountId: string): Promise<LinkedAccount | null> {
+    return this.linkedAccounts.get(`${provider}:${providerAccountId}`) || null;
+  }
+
+  async listLinkedAccounts(userId: string): Promise<LinkedAccount[]> {
+    return [...this.linkedAccounts.values()].filter((account) => account.userId === userId);
+  }
+
+  async unlinkAccount(provider: string, providerAccountId: string): Promise<void> {
+    this.linkedAccounts.delete(`${provider}:${providerAccountId}`);
+  }
+
+  async createApiKey(data: CreateApiKeyData): Promise<ApiKeyRecord> {
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+    this.apiKeys.set(record.prefix, record);
+
+    return record;
+  }
+
+  async findApiKeyByPrefix(prefix: string): Promise<ApiKeyRecord | null> {
+    return this.apiKeys.get(prefix) || null;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    return [...this.apiKeys.values()].filter((apiKey) => apiKey.userId === userId);
+  }
+
+  async updateApiKey(id: string, data: Partial<Pick<ApiKeyRecord, 'lastUsedAt' | 'revokedAt'>>): Promise<void> {
+    for (const record of this.apiKeys.values()) {
+      if (record.id === id) {
+        Object.assign(record, data);
+      }
+    }
+  }
+
+  async createLoginSession(data: CreateLoginSessionData): Promise<LoginSession> {
+    const now = new Date();
+    const session: LoginSession = { ...data, createdAt: now, lastSeenAt: now };
+    this.loginSessions.set(session.id, session);
+
+    return { ...session };
+  }
+
+  async findLoginSession(id: string): Promise<LoginSession | null> {
+    const session = this.loginSessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async listLoginSessions(userId: string): Promise<LoginSession[]> {
+    return [...this.loginSessions.values()]
+      .filter((session) => session.userId === userId)
+      .map((session) => ({ ...session }));
+  }
+
+  async updateLoginSession(
+    id: string,
+    data: Partial<Pick<LoginSession, 'lastSeenAt' | 'expiresAt' | 'revokedAt'>>
+  ): Promise<void> {
+    const session = this.loginSessions.get(id);
+    if (session) {
+      Object.assign(session, data);
+    }
   }
 
   clear(): void {
     this.users.clear();
     this.emailIndex.clear();
+    this.refreshTokens.clear();
+    this.refreshTokenIndex.clear();
+    this.verificationTokens.clear();
+    this.verificationTokenIndex.clear();
+    this.linkedAccounts.clear();
+    this.loginSessions.clear();
+    this.apiKeys.clear();
   }
 }
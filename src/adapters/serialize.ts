@@ -0,0 +1,17 @@
+// JSON that survives a round trip with Date values intact, wherever they sit in a record
+
+export function serialize(value: unknown, space?: number): string {
+  return JSON.stringify(value, function (this: any, key: string, current: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : current;
+  }, space);
+}
+
+export function deserialize<T = any>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1) {
+      return new Date(value.$date);
+    }
+    return value;
+  });
+}
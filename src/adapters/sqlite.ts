@@ -0,0 +1,653 @@
+import crypto from 'crypto';
+import type {
+  DatabaseAdapter,
+  RevocationStore,
+  SessionStore,
+  SessionRecord,
+  User,
+  CreateUserData,
+  RefreshTokenRecord,
+  CreateRefreshTokenData,
+  VerificationTokenRecord,
+  CreateVerificationTokenData,
+  VerificationTokenType,
+  LinkedAccount,
+  CreateLinkedAccountData,
+  ListUsersQuery,
+  ApiKeyRecord,
+  CreateApiKeyData,
+  LoginSession,
+  CreateLoginSessionData,
+} from '../types';
+import { serialize, deserialize } from './serialize';
+import { AccountAlreadyLinkedError, DuplicateEmailError, UserNotFoundError } from './errors';
+
+// The subset of better-sqlite3 and node:sqlite (DatabaseSync) that the adapter relies on
+export interface SQLiteStatement {
+  run(...params: any[]): { changes: number | bigint };
+  get(...params: any[]): any;
+  all(...params: any[]): any[];
+}
+
+export interface SQLiteDatabase {
+  prepare(sql: string): SQLiteStatement;
+  exec(sql: string): void;
+}
+
+export interface SQLiteAdapterOptions {
+  database: SQLiteDatabase;
+  // Set to false to run `migrate()` yourself, e.g. from a deploy script
+  migrate?: boolean;
+}
+
+// Each entry moves the schema up one `user_version`; never edit a migration once released
+const MIGRATIONS = [
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    password TEXT,
+    data TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX users_email_unique ON users (lower(email));
+
+  CREATE TABLE refresh_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    family_id TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    expires_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    used_at INTEGER,
+    revoked_at INTEGER
+  );
+  CREATE INDEX refresh_tokens_user_id ON refresh_tokens (user_id);
+  CREATE INDEX refresh_tokens_family_id ON refresh_tokens (family_id);
+
+  CREATE TABLE verification_tokens (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    expires_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    used_at INTEGER
+  );
+  CREATE INDEX verification_tokens_user_id ON verification_tokens (user_id, type);
+
+  CREATE TABLE revoked_tokens (
+    jti TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE user_token_cutoffs (
+    user_id TEXT PRIMARY KEY,
+    revoked_before INTEGER NOT NULL
+  );
+
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    user TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX sessions_user_id ON sessions (user_id);
+  `,
+  `
+  ALTER TABLE verification_tokens ADD COLUMN data TEXT;
+  `,
+  `
+  CREATE TABLE linked_accounts (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    provider_account_id TEXT NOT NULL,
+    email TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX linked_accounts_provider_unique ON linked_accounts (provider, provider_account_id);
+  CREATE INDEX linked_accounts_user_id ON linked_accounts (user_id);
+  `,
+  `
+  CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL UNIQUE,
+    key_hash TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    expires_at INTEGER,
+    last_used_at INTEGER,
+    revoked_at INTEGER,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX api_keys_user_id ON api_keys (user_id);
+  `,
+  `
+  CREATE TABLE login_sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    ip TEXT,
+    user_agent TEXT,
+    device TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    revoked_at INTEGER
+  );
+  CREATE INDEX login_sessions_user_id ON login_sessions (user_id);
+  `,
+  `
+  ALTER TABLE verification_tokens ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+  `,
+];
+
+function toDate(value: number | bigint | null | undefined): Date | undefined {
+  return value === null || value === undefined ? undefined : new Date(Number(value));
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return /UNIQUE constraint failed/i.test((error as Error)?.message || '');
+}
+
+export class SQLiteAdapter implements DatabaseAdapter, RevocationStore, SessionStore {
+  private db: SQLiteDatabase;
+
+  constructor(options: SQLiteAdapterOptions) {
+    this.db = options.database;
+    if (options.migrate !== false) {
+      this.migrate();
+    }
+  }
+
+  migrate(): void {
+    const row = this.db.prepare('PRAGMA user_version').get();
+    const version = Number(row?.user_version ?? 0);
+
+    for (let index = version; index < MIGRATIONS.length; index++) {
+      this.db.exec('BEGIN');
+      try {
+        this.db.exec(MIGRATIONS[index]);
+        this.db.exec(`PRAGMA user_version = ${index + 1}`);
+        this.db.exec('COMMIT');
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    }
+  }
+
+  async findUserByEmail(email: string): Promise<User | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE lower(email) = lower(?)').get(email);
+    return row ? this.toUser(row) : null;
+  }
+
+  async findUserById(id: string): Promise<User | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id);
+    return row ? this.toUser(row) : null;
+  }
+
+  async createUser(data: CreateUserData): Promise<User> {
+    const user: User = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    try {
+      this.db
+        .prepare('INSERT INTO users (id, email, password, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(...this.fromUser(user));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new DuplicateEmailError(data.email);
+      }
+      throw error;
+    }
+
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<User>): Promise<User> {
+    const user = await this.findUserById(id);
+    if (!user) {
+      throw new UserNotFoundError(id);
+    }
+
+    const updated: User = {
+      ...user,
+      ...data,
+      id,
+      updatedAt: new Date(),
+    };
+    const [, email, password, fields, createdAt, updatedAt] = this.fromUser(updated);
+
+    try {
+      this.db
+        .prepare('UPDATE users SET email = ?, password = ?, data = ?, created_at = ?, updated_at = ? WHERE id = ?')
+        .run(email, password, fields, createdAt, updatedAt, id);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new DuplicateEmailError(email);
+      }
+      throw error;
+    }
+
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+    this.db.prepare('DELETE FROM refresh_tokens WHERE user_id = ?').run(id);
+    this.db.prepare('DELETE FROM verification_tokens WHERE user_id = ?').run(id);
+    this.db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+    this.db.prepare('DELETE FROM linked_accounts WHERE user_id = ?').run(id);
+    this.db.prepare('DELETE FROM api_keys WHERE user_id = ?').run(id);
+    this.db.prepare('DELETE FROM login_sessions WHERE user_id = ?').run(id);
+  }
+
+  async listUsers(query: ListUsersQuery = {}): Promise<User[]> {
+    // LIMIT -1 is SQLite for "no limit"
+    const rows = this.db
+      .prepare('SELECT * FROM users ORDER BY created_at, rowid LIMIT ? OFFSET ?')
+      .all(query.limit ?? -1, query.offset ?? 0);
+    return rows.map((row) => this.toUser(row));
+  }
+
+  async createRefreshToken(data: CreateRefreshTokenData): Promise<RefreshTokenRecord> {
+    const record: RefreshTokenRecord = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+
+    this.db
+      .prepare(
+        'INSERT INTO refresh_tokens (id, user_id, family_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        record.id,
+        record.userId,
+        record.familyId,
+        record.tokenHash,
+        record.expiresAt.getTime(),
+        record.createdAt.getTime()
+      );
+
+    return record;
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const row = this.db.prepare('SELECT * FROM refresh_tokens WHERE token_hash = ?').get(tokenHash);
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      familyId: row.family_id,
+      tokenHash: row.token_hash,
+      expiresAt: toDate(row.expires_at) as Date,
+      createdAt: toDate(row.created_at) as Date,
+      usedAt: toDate(row.used_at),
+      revokedAt: toDate(row.revoked_at),
+    };
+  }
+
+  async markRefreshTokenUsed(id: string): Promise<boolean> {
+    const result = this.db
+      .prepare('UPDATE refresh_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL AND revoked_at IS NULL')
+      .run(Date.now(), id);
+    return Number(result.changes) > 0;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    this.db
+      .prepare('UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL')
+      .run(Date.now(), familyId);
+  }
+
+  async revokeUserRefreshTokens(userId: string, before: Date = new Date()): Promise<void> {
+    this.db
+      .prepare('UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND created_at <= ? AND revoked_at IS NULL')
+      .run(Date.now(), userId, before.getTime());
+  }
+
+  async createVerificationToken(data: CreateVerificationTokenData): Promise<VerificationTokenRecord> {
+    const record: VerificationTokenRecord = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+
+    this.db
+      .prepare(
+        'INSERT INTO verification_tokens (id, type, user_id, token_hash, expires_at, created_at, data) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        record.id,
+        record.type,
+        record.userId,
+        record.tokenHash,
+        record.expiresAt.getTime(),
+        record.createdAt.getTime(),
+        record.data ? serialize(record.data) : null
+      );
+
+    return record;
+  }
+
+  async findVerificationToken(tokenHash: string): Promise<VerificationTokenRecord | null> {
+    const row = this.db.prepare('SELECT * FROM verification_tokens WHERE token_hash = ?').get(tokenHash);
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      type: row.type,
+      userId: row.user_id,
+      tokenHash: row.token_hash,
+      expiresAt: toDate(row.expires_at) as Date,
+      createdAt: toDate(row.created_at) as Date,
+      usedAt: toDate(row.used_at),
+      attempts: Number(row.attempts),
+      data: row.data ? deserialize<Record<string, any>>(row.data) : undefined,
+    };
+  }
+
+  async markVerificationTokenUsed(id: string): Promise<boolean> {
+    const result = this.db
+      .prepare('UPDATE verification_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL')
+      .run(Date.now(), id);
+    return Number(result.changes) > 0;
+  }
+
+  async incrementVerificationTokenAttempts(id: string): Promise<number> {
+    this.db.prepare('UPDATE verification_tokens SET attempts = attempts + 1 WHERE id = ?').run(id);
+    const row = this.db.prepare('SELECT attempts FROM verification_tokens WHERE id = ?').get(id);
+    return row ? Number(row.attempts) : 0;
+  }
+
+  async deleteVerificationTokens(userId: string, type: VerificationTokenType): Promise<void> {
+    this.db.prepare('DELETE FROM verification_tokens WHERE user_id = ? AND type = ?').run(userId, type);
+  }
+
+  async linkAccount(data: CreateLinkedAccountData): Promise<LinkedAccount> {
+    const account: LinkedAccount = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+
+    try {
+      this.db
+        .prepare(
+          'INSERT INTO linked_accounts (id, user_id, provider, provider_account_id, email, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+        )
+        .run(
+          account.id,
+          account.userId,
+          account.provider,
+          account.providerAccountId,
+          account.email ?? null,
+          account.createdAt.getTime()
+        );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new AccountAlreadyLinkedError(data.provider, data.providerAccountId);
+      }
+      throw error;
+    }
+
+    return account;
+  }
+
+  async findLinkedAccount(provider: string, providerAccountId: string): Promise<LinkedAccount | null> {
+    const row = this.db
+      .prepare('SELECT * FROM linked_accounts WHERE provider = ? AND provider_account_id = ?')
+      .get(provider, providerAccountId);
+    return row ? this.toLinkedAccount(row) : null;
+  }
+
+  async listLinkedAccounts(userId: string): Promise<LinkedAccount[]> {
+    const rows = this.db.prepare('SELECT * FROM linked_accounts WHERE user_id = ? ORDER BY created_at').all(userId);
+    return rows.map((row) => this.toLinkedAccount(row));
+  }
+
+  async unlinkAccount(provider: string, providerAccountId: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM linked_accounts WHERE provider = ? AND provider_account_id = ?')
+      .run(provider, providerAccountId);
+  }
+
+  async createApiKey(data: CreateApiKeyData): Promise<ApiKeyRecord> {
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+    };
+
+    this.db
+      .prepare(
+        'INSERT INTO api_keys (id, user_id, name, prefix, key_hash, scopes, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        record.id,
+        record.userId,
+        record.name,
+        record.prefix,
+        record.keyHash,
+        JSON.stringify(record.scopes),
+        record.expiresAt?.getTime() ?? null,
+        record.createdAt.getTime()
+      );
+
+    return record;
+  }
+
+  async findApiKeyByPrefix(prefix: string): Promise<ApiKeyRecord | null> {
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE prefix = ?').get(prefix);
+    return row ? this.toApiKey(row) : null;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    const rows = this.db.prepare('SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at').all(userId);
+    return rows.map((row) => this.toApiKey(row));
+  }
+
+  async updateApiKey(id: string, data: Partial<Pick<ApiKeyRecord, 'lastUsedAt' | 'revokedAt'>>): Promise<void> {
+    this.db
+      .prepare('UPDATE api_keys SET last_used_at = coalesce(?, last_used_at), revoked_at = coalesce(?, revoked_at) WHERE id = ?')
+      .run(data.lastUsedAt?.getTime() ?? null, data.revokedAt?.getTime() ?? null, id);
+  }
+
+  async createLoginSession(data: CreateLoginSessionData): Promise<LoginSession> {
+    const now = new Date();
+    const session: LoginSession = { ...data, createdAt: now, lastSeenAt: now };
+
+    this.db
+      .prepare(
+        'INSERT INTO login_sessions (id, user_id, ip, user_agent, device, created_at, last_seen_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        session.id,
+        session.userId,
+        session.ip ?? null,
+        session.userAgent ?? null,
+        JSON.stringify(session.device),
+        now.getTime(),
+        now.getTime(),
+        session.expiresAt.getTime()
+      );
+
+    return session;
+  }
+
+  async findLoginSession(id: string): Promise<LoginSession | null> {
+    const row = this.db.prepare('SELECT * FROM login_sessions WHERE id = ?').get(id);
+    return row ? this.toLoginSession(row) : null;
+  }
+
+  async listLoginSessions(userId: string): Promise<LoginSession[]> {
+    const rows = this.db.prepare('SELECT * FROM login_sessions WHERE user_id = ? ORDER BY created_at').all(userId);
+    return rows.map((row) => this.toLoginSession(row));
+  }
+
+  async updateLoginSession(
+    id: string,
+    data: Partial<Pick<LoginSession, 'lastSeenAt' | 'expiresAt' | 'revokedAt'>>
+  ): Promise<void> {
+    this.db
+      .prepare(
+        'UPDATE login_sessions SET last_seen_at = coalesce(?, last_seen_at), expires_at = coalesce(?, expires_at), revoked_at = coalesce(?, revoked_at) WHERE id = ?'
+      )
+      .run(
+        data.lastSeenAt?.getTime() ?? null,
+        data.expiresAt?.getTime() ?? null,
+        data.revokedAt?.getTime() ?? null,
+        id
+      );
+  }
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    this.db.prepare('DELETE FROM revoked_tokens WHERE expires_at <= ?').run(Date.now());
+    this.db
+      .prepare('INSERT INTO revoked_tokens (jti, expires_at) VALUES (?, ?) ON CONFLICT (jti) DO UPDATE SET expires_at = excluded.expires_at')
+      .run(jti, expiresAt.getTime());
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const row = this.db.prepare('SELECT 1 FROM revoked_tokens WHERE jti = ? AND expires_at > ?').get(jti, Date.now());
+    return !!row;
+  }
+
+  async revokeUserTokens(userId: string, before: Date): Promise<void> {
+    this.db
+      .prepare(
+        'INSERT INTO user_token_cutoffs (user_id, revoked_before) VALUES (?, ?) ' +
+          'ON CONFLICT (user_id) DO UPDATE SET revoked_before = max(revoked_before, excluded.revoked_before)'
+      )
+      .run(userId, before.getTime());
+  }
+
+  async getUserTokensRevokedBefore(userId: string): Promise<Date | null> {
+    const row = this.db.prepare('SELECT revoked_before FROM user_token_cutoffs WHERE user_id = ?').get(userId);
+    return row ? new Date(Number(row.revoked_before)) : null;
+  }
+
+  async createSession(session: SessionRecord): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(Date.now());
+    this.db
+      .prepare(
+        'INSERT INTO sessions (id, user_id, user, created_at, last_seen_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        session.id,
+        session.userId,
+        serialize(session.user),
+        session.createdAt.getTime(),
+        session.lastSeenAt.getTime(),
+        session.expiresAt.getTime()
+      );
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(id);
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      user: deserialize<User>(row.user),
+      createdAt: toDate(row.created_at) as Date,
+      lastSeenAt: toDate(row.last_seen_at) as Date,
+      expiresAt: toDate(row.expires_at) as Date,
+    };
+  }
+
+  async touchSession(id: string, lastSeenAt: Date): Promise<void> {
+    this.db.prepare('UPDATE sessions SET last_seen_at = ? WHERE id = ?').run(lastSeenAt.getTime(), id);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+  }
+
+  // Columns hold what the adapter queries on; everything else lives in the `data` JSON
+  private fromUser(user: User): [string, string, string | null, string, number, number] {
+    const { id, email, password, createdAt, updatedAt, ...fields } = user;
+    return [
+      id,
+      email,
+      password ?? null,
+      serialize(fields),
+      (createdAt instanceof Date ? createdAt : new Date()).getTime(),
+      (updatedAt instanceof Date ? updatedAt : new Date()).getTime(),
+    ];
+  }
+
+  private toLinkedAccount(row: any): LinkedAccount {
+    const account: LinkedAccount = {
+      id: row.id,
+      userId: row.user_id,
+      provider: row.provider,
+      providerAccountId: row.provider_account_id,
+      createdAt: toDate(row.created_at) as Date,
+    };
+    if (row.email !== null && row.email !== undefined) {
+      account.email = row.email;
+    }
+    return account;
+  }
+
+  private toApiKey(row: any): ApiKeyRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      prefix: row.prefix,
+      keyHash: row.key_hash,
+      scopes: JSON.parse(row.scopes),
+      expiresAt: toDate(row.expires_at),
+      lastUsedAt: toDate(row.last_used_at),
+      revokedAt: toDate(row.revoked_at),
+      createdAt: toDate(row.created_at) as Date,
+    };
+  }
+
+  private toLoginSession(row: any): LoginSession {
+    const session: LoginSession = {
+      id: row.id,
+      userId: row.user_id,
+      device: JSON.parse(row.device),
+      createdAt: toDate(row.created_at) as Date,
+      lastSeenAt: toDate(row.last_seen_at) as Date,
+      expiresAt: toDate(row.expires_at) as Date,
+      revokedAt: toDate(row.revoked_at),
+    };
+    if (row.ip !== null && row.ip !== undefined) session.ip = row.ip;
+    if (row.user_agent !== null && row.user_agent !== undefined) session.userAgent = row.user_agent;
+    return session;
+  }
+
+  private toUser(row: any): User {
+    const user: User = {
+      ...deserialize<Record<string, any>>(row.data),
+      id: row.id,
+      email: row.email,
+      createdAt: toDate(row.created_at),
+      updatedAt: toDate(row.updated_at),
+    };
+    if (row.password !== null && row.password !== undefined) {
+      user.password = row.password;
+    }
+    return user;
+  }
+}
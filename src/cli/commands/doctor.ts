@@ -0,0 +1,44 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+import type { ConfigIssue } from '../../types';
+import { loadEngine, runAction } from '../context';
+import { output } from '../output';
+
+function printIssue(issue: ConfigIssue): void {
+  const icon = issue.severity === 'error' ? chalk.red('✖') : chalk.yellow('⚠');
+  console.log(`${icon} ${issue.message} ${chalk.gray(`(${issue.code})`)}`);
+  if (issue.hint) {
+    console.log(chalk.gray(`  ${issue.hint}`));
+  }
+}
+
+export function registerDoctorCommand(program: Command): void {
+  program
+    .command('doctor')
+    .description('Load your auth config and report insecure settings')
+    .option('--production', 'Apply production checks regardless of NODE_ENV')
+    .option('--strict', 'Exit with code 1 on warnings too')
+    .action((commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      const production = !!commandOptions.production || process.env.NODE_ENV === 'production';
+      const issues = engine.checkConfiguration({ production });
+      const errors = issues.filter((issue) => issue.severity === 'error');
+      const failed = errors.length > 0 || (!!commandOptions.strict && issues.length > 0);
+
+      output(options, { success: !failed, production, issues }, () => {
+        if (issues.length === 0) {
+          console.log(chalk.green('✔ No problems found'));
+        } else {
+          [...errors, ...issues.filter((issue) => issue.severity !== 'error')].forEach(printIssue);
+          console.log(`\n${errors.length} error(s), ${issues.length - errors.length} warning(s)`);
+        }
+        if (!production) {
+          console.log(chalk.gray('Production-only checks were skipped; pass --production or set NODE_ENV=production'));
+        }
+      });
+
+      if (failed) {
+        process.exitCode = 1;
+      }
+    }));
+}
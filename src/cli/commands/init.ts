@@ -0,0 +1,171 @@
+import type { Command } from 'commander';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import path from 'path';
+import { generateOpaqueToken } from '../../core/tokens';
+import { isInteractive, runAction } from '../context';
+import { CliError, output } from '../output';
+import { envVariables, generateProjectFiles, renderEnvFile } from '../templates';
+import type { DatabaseChoice, Framework, InitChoices, StrategyChoice } from '../templates';
+
+const FRAMEWORKS: { name: string; value: Framework }[] = [
+  { name: 'Express.js', value: 'express' },
+  { name: 'Fastify', value: 'fastify' },
+  { name: 'Next.js (App Router)', value: 'nextjs' },
+];
+
+const DATABASES: { name: string; value: DatabaseChoice }[] = [
+  { name: 'In-Memory (for testing/development)', value: 'memory' },
+  { name: 'JSON file (prototypes, small apps)', value: 'file' },
+  { name: 'SQLite (better-sqlite3)', value: 'sqlite' },
+];
+
+const STRATEGIES: { name: string; value: StrategyChoice }[] = [
+  { name: 'JWT (JSON Web Tokens)', value: 'jwt' },
+  { name: 'Session-based', value: 'session' },
+];
+
+// 48 random bytes, base64url-encoded: 64 characters
+function generateSecret(): string {
+  return generateOpaqueToken(48);
+}
+
+function pickOption<T extends string>(
+  flag: string,
+  value: string | undefined,
+  choices: { value: T }[]
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.some((choice) => choice.value === value)) {
+    throw new CliError(`--${flag} must be one of: ${choices.map((choice) => choice.value).join(', ')}`);
+  }
+  return value as T;
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(() => true, () => false);
+}
+
+// Missing variables are appended; values already in the file are never touched
+async function writeEnvFile(file: string, content: string, names: string[]): Promise<string[]> {
+  if (!(await exists(file))) {
+    await fs.writeFile(file, content, { mode: 0o600 });
+    return names;
+  }
+
+  const current = await fs.readFile(file, 'utf8');
+  const missing = names.filter((name) => !new RegExp(`^\\s*(export\\s+)?${name}\\s*=`, 'm').test(current));
+  const lines = content.split('\n').filter((line) => missing.some((name) => line.startsWith(`${name}=`)));
+  if (lines.length > 0) {
+    await fs.appendFile(file, `${current.endsWith('\n') ? '' : '\n'}${lines.join('\n')}\n`);
+  }
+  return missing;
+}
+
+async function ignoreEnvFile(dir: string): Promise<boolean> {
+  const file = path.join(dir, '.gitignore');
+  if (!(await exists(file))) return false;
+
+  const current = await fs.readFile(file, 'utf8');
+  if (/^\/?\.env\s*$/m.test(current)) return false;
+  await fs.appendFile(file, `${current.endsWith('\n') ? '' : '\n'}.env\n`);
+  return true;
+}
+
+export function registerInitCommands(program: Command): void {
+  program
+    .command('init')
+    .description('Initialize quick-auth in your project')
+    .option('-d, --dir <directory>', 'Project directory', '.')
+    .option('--framework <name>', 'express, fastify or nextjs')
+    .option('--database <name>', 'memory, file or sqlite')
+    .option('--strategy <name>', 'jwt or session')
+    .option('--force', 'Overwrite generated files that already exist')
+    .action((commandOptions, command: Command) => runAction(command, async (options) => {
+      const given: Partial<InitChoices> = {
+        framework: pickOption('framework', commandOptions.framework, FRAMEWORKS),
+        database: pickOption('database', commandOptions.database, DATABASES),
+        strategy: pickOption('strategy', commandOptions.strategy, STRATEGIES),
+      };
+
+      // Without a terminal, anything not passed as a flag gets the first choice
+      let choices: InitChoices = {
+        framework: given.framework || FRAMEWORKS[0].value,
+        database: given.database || DATABASES[0].value,
+        strategy: given.strategy || STRATEGIES[0].value,
+      };
+      if (isInteractive(options)) {
+        console.log(chalk.blue.bold('🚀 Quick Auth Setup\n'));
+        // Questions answered by a flag are skipped
+        choices = await inquirer.prompt<InitChoices>([
+          { type: 'list', name: 'framework', message: 'Which framework are you using?', choices: FRAMEWORKS },
+          { type: 'list', name: 'database', message: 'Which database adapter?', choices: DATABASES },
+          { type: 'list', name: 'strategy', message: 'Which authentication strategy?', choices: STRATEGIES },
+        ], given);
+      }
+
+      const dir = path.resolve(commandOptions.dir);
+      const created: string[] = [];
+      const skipped: string[] = [];
+      const files = [
+        ...generateProjectFiles(choices),
+        { path: '.env.example', content: renderEnvFile(envVariables(choices, ''), true) },
+      ];
+
+      for (const file of files) {
+        const target = path.join(dir, file.path);
+        if (!commandOptions.force && await exists(target)) {
+          skipped.push(file.path);
+          continue;
+        }
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, file.content);
+        created.push(file.path);
+      }
+
+      const variables = envVariables(choices, generateSecret());
+      const added = await writeEnvFile(
+        path.join(dir, '.env'),
+        renderEnvFile(variables, false),
+        variables.map((variable) => variable.name)
+      );
+      const ignored = await ignoreEnvFile(dir);
+
+      output(options, { success: true, choices, created, skipped, envVariablesAdded: added }, () => {
+        created.forEach((file) => console.log(chalk.green(`✅ Created ${file}`)));
+        skipped.forEach((file) => console.log(chalk.yellow(`⚠ Skipped ${file}: it exists (use --force to overwrite)`)));
+        if (added.length > 0) {
+          console.log(chalk.green(`✅ Added ${added.join(', ')} to .env`));
+        }
+        if (ignored) {
+          console.log(chalk.green('✅ Added .env to .gitignore'));
+        }
+
+        const packages = ['@opencode/quick-auth'];
+        if (choices.framework !== 'nextjs') packages.push(choices.framework);
+        if (choices.database === 'sqlite') packages.push('better-sqlite3');
+
+        console.log(chalk.yellow('\nNext steps:'));
+        console.log(chalk.white(`1. Install dependencies: npm install ${packages.join(' ')}`));
+        if (choices.framework === 'nextjs') {
+          console.log(chalk.white('2. Start Next.js (it reads .env itself): npm run dev'));
+        } else {
+          console.log(chalk.white('2. Start the server (Node 20.6+): node --env-file=.env server.js'));
+          console.log(chalk.white('3. Check the setup: npx quick-auth doctor --config auth.js'));
+        }
+        console.log(chalk.white('Keep .env out of version control; commit .env.example instead.\n'));
+      });
+    }));
+
+  program
+    .command('generate-secret')
+    .description('Generate a random secret key')
+    .action((commandOptions, command: Command) => runAction(command, async (options) => {
+      const secret = generateSecret();
+      output(options, { success: true, secret }, () => {
+        console.log(chalk.green('Generated secret:'));
+        console.log(chalk.yellow(secret));
+      });
+    }));
+}
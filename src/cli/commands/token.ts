@@ -0,0 +1,102 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+import jwt from 'jsonwebtoken';
+import { findUser, loadEngine, runAction } from '../context';
+import { CliError, formatDate, output } from '../output';
+
+interface TokenInfo {
+  header: jwt.JwtHeader;
+  claims: jwt.JwtPayload;
+  issuedAt?: Date;
+  expiresAt?: Date;
+  expired: boolean;
+}
+
+// Reads a token without checking its signature
+function inspectToken(token: string): TokenInfo {
+  const decoded = jwt.decode(token.trim(), { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new CliError('Not a JSON Web Token');
+  }
+
+  const claims = decoded.payload;
+  const expiresAt = typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : undefined;
+  return {
+    header: decoded.header,
+    claims,
+    issuedAt: typeof claims.iat === 'number' ? new Date(claims.iat * 1000) : undefined,
+    expiresAt,
+    expired: !!expiresAt && expiresAt.getTime() <= Date.now(),
+  };
+}
+
+function printTokenInfo(info: TokenInfo): void {
+  console.log(chalk.bold('Header'));
+  console.log(JSON.stringify(info.header, null, 2));
+  console.log(chalk.bold('Claims'));
+  console.log(JSON.stringify(info.claims, null, 2));
+  console.log(`${chalk.bold('Issued:')}  ${formatDate(info.issuedAt)}`);
+  const expiry = formatDate(info.expiresAt);
+  console.log(`${chalk.bold('Expires:')} ${info.expired ? chalk.red(`${expiry} (expired)`) : expiry}`);
+}
+
+export function registerTokenCommands(program: Command): void {
+  program
+    .command('token:sign')
+    .description('Issue an access token for a user, e.g. for testing an API')
+    .argument('<user>', 'User id or email')
+    .action((identifier: string, commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options, { signing: true });
+      const strategy = engine.getStrategy();
+      if (strategy.name !== 'jwt') {
+        throw new CliError(`token:sign needs the JWT strategy, the config uses "${strategy.name}"`);
+      }
+
+      const user = await findUser(engine, identifier);
+      const token = await strategy.generateToken(user);
+      const info = inspectToken(token);
+
+      output(options, { success: true, token, expiresAt: info.expiresAt }, () => {
+        console.log(token);
+        if (process.stdout.isTTY) {
+          console.error(chalk.gray(`Expires: ${formatDate(info.expiresAt)}`));
+        }
+      });
+    }));
+
+  program
+    .command('token:verify')
+    .description("Check a token's signature, expiry and revocation with the configured keys")
+    .argument('<token>', 'The token')
+    .action((token: string, commandOptions, command: Command) => showToken(command, token, true));
+
+  program
+    .command('token:decode')
+    .description("Show a token's claims without checking the signature")
+    .argument('<token>', 'The token')
+    .action((token: string, commandOptions, command: Command) => showToken(command, token, false));
+}
+
+function showToken(command: Command, token: string, verify: boolean): Promise<void> {
+  return runAction(command, async (options) => {
+    const info = inspectToken(token);
+    if (!verify) {
+      output(options, { success: true, ...info }, () => printTokenInfo(info));
+      return;
+    }
+
+    const engine = await loadEngine(options, { signing: true });
+    const result = await engine.verifyToken(token.trim());
+    const verification = result.success ? { valid: true } : { valid: false, code: result.code, error: result.error };
+
+    output(options, { success: result.success, ...verification, ...info }, () => {
+      console.log(result.success
+        ? chalk.green('✅ Valid token')
+        : chalk.red(`✖ Invalid token: ${result.error} (${result.code})`));
+      printTokenInfo(info);
+    });
+    if (!result.success) {
+      process.exitCode = 1;
+    }
+  });
+}
@@ -0,0 +1,217 @@
+import type { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import type { AccountStatus, User } from '../../types';
+import { parseDuration } from '../../core/duration';
+import { confirm, findUser, loadEngine, readPassword, runAction } from '../context';
+import { CliError, formatDate, output } from '../output';
+
+function collectField(value: string, fields: Record<string, string>): Record<string, string> {
+  const separator = value.indexOf('=');
+  if (separator < 1) {
+    throw new CliError(`Expected key=value, got "${value}"`);
+  }
+  return { ...fields, [value.slice(0, separator)]: value.slice(separator + 1) };
+}
+
+const ACCOUNT_STATUSES: AccountStatus[] = ['active', 'disabled', 'locked'];
+
+// A duration from now (`30m`, `7d`) or a date
+function parseUntil(value: string): Date {
+  if (/^\d/.test(value) && !/^\d{4}-/.test(value)) {
+    return new Date(Date.now() + parseDuration(value));
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new CliError(`Expected a duration like 24h or a date, got "${value}"`);
+  }
+  return date;
+}
+
+function describeUser(user: User): string {
+  const role = user.role ?? (Array.isArray(user.roles) ? user.roles.join(',') : undefined);
+  const details = [
+    role && `role=${role}`,
+    user.emailVerified === false && 'unverified',
+    user.twoFactorEnabled && '2fa',
+    user.status && user.status !== 'active' && `status=${user.status}`,
+  ].filter(Boolean).join(' ');
+  return `${chalk.cyan(user.id)}  ${user.email}${details ? chalk.gray(`  ${details}`) : ''}`;
+}
+
+export function registerUserCommands(program: Command): void {
+  program
+    .command('users:create')
+    .description('Create a user')
+    .argument('<email>', 'Email address')
+    .option('-p, --password <password>', 'Password (prompted for when omitted in a terminal)')
+    .option('--password-stdin', 'Read the password from stdin')
+    .option('-r, --role <role>', 'Role to assign')
+    .option('--verified', 'Mark the email as verified')
+    .option('--field <key=value>', 'Extra user field, repeatable', collectField, {})
+    .action((email: string, commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      const password = await readPassword(options, commandOptions);
+      const user = await engine.createUser({
+        ...commandOptions.field,
+        email,
+        password,
+        ...(commandOptions.verified ? { emailVerified: true, emailVerifiedAt: new Date() } : {}),
+      });
+      const result = commandOptions.role ? await engine.setUserRole(user.id, commandOptions.role) : user;
+
+      output(options, { success: true, user: result }, () => {
+        console.log(chalk.green('✅ Created user'));
+        console.log(describeUser(result));
+      });
+    }));
+
+  program
+    .command('users:list')
+    .description('List users, oldest first')
+    .option('-l, --limit <number>', 'Maximum number of users', '50')
+    .option('-o, --offset <number>', 'Number of users to skip', '0')
+    .action((commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      const users = await engine.listUsers({
+        limit: Number(commandOptions.limit),
+        offset: Number(commandOptions.offset),
+      });
+
+      output(options, { success: true, users }, () => {
+        if (users.length === 0) {
+          console.log(chalk.gray('No users'));
+          return;
+        }
+        for (const user of users) {
+          console.log(`${describeUser(user)}  ${chalk.gray(formatDate(user.createdAt))}`);
+        }
+      });
+    }));
+
+  program
+    .command('users:set-password')
+    .description("Set a user's password and sign them out everywhere")
+    .argument('<user>', 'User id or email')
+    .option('-p, --password <password>', 'New password (prompted for when omitted in a terminal)')
+    .option('--password-stdin', 'Read the password from stdin')
+    .action((identifier: string, commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      const user = await findUser(engine, identifier);
+      const password = await readPassword(options, commandOptions);
+
+      await engine.updateUser(user.id, { password });
+      await engine.revokeAllTokens(user.id);
+
+      output(options, { success: true, user }, () => {
+        console.log(chalk.green(`✅ Password updated for ${user.email}`));
+      });
+    }));
+
+  program
+    .command('users:set-role')
+    .description("Set a user's role")
+    .argument('<user>', 'User id or email')
+    .argument('<role>', 'Role name')
+    .action((identifier: string, role: string, commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      const user = await findUser(engine, identifier);
+      const updated = await engine.setUserRole(user.id, role);
+
+      output(options, { success: true, user: updated }, () => {
+        console.log(chalk.green(`✅ ${user.email} now has role ${role}`));
+      });
+    }));
+
+  program
+    .command('users:set-status')
+    .description('Disable, lock or reactivate a user; anything but active signs them out everywhere')
+    .argument('<user>', 'User id or email')
+    .argument('<status>', ACCOUNT_STATUSES.join(', '))
+    .option('--reason <text>', 'Why, kept on the user record')
+    .option('--until <when>', 'For locked: unlock after a duration (24h) or at a date')
+    .action((identifier: string, status: string, commandOptions, command: Command) => runAction(command, async (options) => {
+      if (!ACCOUNT_STATUSES.includes(status as AccountStatus)) {
+        throw new CliError(`Status must be one of: ${ACCOUNT_STATUSES.join(', ')}`);
+      }
+      if (commandOptions.until && status !== 'locked') {
+        throw new CliError('--until only applies to locked');
+      }
+
+      const engine = await loadEngine(options);
+      const user = await findUser(engine, identifier);
+      const updated = await engine.setAccountStatus(user.id, status as AccountStatus, {
+        reason: commandOptions.reason,
+        lockedUntil: commandOptions.until ? parseUntil(commandOptions.until) : undefined,
+      });
+
+      output(options, { success: true, user: updated }, () => {
+        const until = updated.lockedUntil ? ` until ${formatDate(updated.lockedUntil)}` : '';
+        console.log(chalk.green(`✅ ${user.email} is now ${status}${until}`));
+      });
+    }));
+
+  program
+    .command('users:delete')
+    .description('Delete a user and everything stored for them')
+    .argument('<user>', 'User id or email')
+    .option('--soft', 'Schedule the deletion instead; users:set-status <user> active undoes it until users:purge runs')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .action((identifier: string, commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      const user = await findUser(engine, identifier);
+
+      if (commandOptions.soft) {
+        const updated = await engine.scheduleDeletion(user.id);
+        output(options, { success: true, user: updated }, () => {
+          console.log(chalk.green(`✅ ${user.email} will be deleted after ${formatDate(updated.deleteAfter)}`));
+        });
+        return;
+      }
+
+      await confirm(options, `Delete ${user.email} (${user.id})?`, commandOptions.yes);
+
+      await engine.revokeAllTokens(user.id);
+      await engine.deleteUser(user.id);
+
+      output(options, { success: true, userId: user.id }, () => {
+        console.log(chalk.green(`✅ Deleted ${user.email}`));
+      });
+    }));
+
+  program
+    .command('users:purge')
+    .description('Delete every user whose scheduled deletion is due')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .action((commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      await confirm(options, 'Permanently delete every account past its deletion date?', commandOptions.yes);
+      const userIds = await engine.purgeDeletedUsers();
+
+      output(options, { success: true, userIds }, () => {
+        console.log(chalk.green(`✅ Purged ${userIds.length} ${userIds.length === 1 ? 'user' : 'users'}`));
+      });
+    }));
+
+  program
+    .command('users:export')
+    .description('Export everything stored about a user as JSON, without secrets')
+    .argument('<user>', 'User id or email')
+    .option('-o, --out <file>', 'Write to a file instead of stdout')
+    .action((identifier: string, commandOptions, command: Command) => runAction(command, async (options) => {
+      const engine = await loadEngine(options);
+      const user = await findUser(engine, identifier);
+      const data = await engine.exportUserData(user.id);
+      const json = JSON.stringify(data, null, 2);
+
+      if (!commandOptions.out) {
+        console.log(json);
+        return;
+      }
+      // Personal data: readable by the owner only
+      await fs.writeFile(commandOptions.out, `${json}\n`, { mode: 0o600 });
+      output(options, { success: true, file: commandOptions.out }, () => {
+        console.log(chalk.green(`✅ Exported ${user.email} to ${commandOptions.out}`));
+      });
+    }));
+}
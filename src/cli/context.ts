@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import inquirer from 'inquirer';
+import type { Command } from 'commander';
+import { quickAuth } from '../index';
+import { FileAdapter } from '../adapters/file';
+import type { AuthEngine } from '../core/engine';
+import type { User } from '../types';
+import { CliError, reportError } from './output';
+
+export interface GlobalOptions {
+  config?: string;
+  file?: string;
+  secret?: string;
+  json?: boolean;
+}
+
+export const DEFAULT_CONFIG_FILE = 'quick-auth.config.js';
+
+// Runs a command with the global options merged in and reports failures instead of throwing
+export async function runAction(command: Command, action: (options: GlobalOptions) => Promise<void>): Promise<void> {
+  const options = command.optsWithGlobals() as GlobalOptions;
+  try {
+    await action(options);
+  } catch (error) {
+    reportError(options, error);
+  }
+}
+
+// Reads KEY=value lines like dotenv; variables that are already set win
+function loadEnvFile(file = '.env'): void {
+  if (!fs.existsSync(file)) return;
+
+  for (const line of fs.readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match || process.env[match[1]] !== undefined) continue;
+
+    const quoted = /^(['"])(.*)\1$/.exec(match[2]);
+    process.env[match[1]] = quoted ? quoted[2] : match[2].replace(/\s+#.*$/, '');
+  }
+}
+
+function isEngine(value: any): value is AuthEngine {
+  return !!value && typeof value.verifyToken === 'function' && typeof value.getStrategy === 'function';
+}
+
+/**
+ * Builds the engine the commands run against. A config module may export the object `quickAuth()`
+ * or `createAuth()` returned, an AuthEngine, or `quickAuth` options (a promise of any of these
+ * works too). `--file` is a shortcut for a FileAdapter with the secret from `--secret` or JWT_SECRET.
+ * A `.env` file in the working directory is loaded first.
+ */
+export async function loadEngine(options: GlobalOptions, { signing = false } = {}): Promise<AuthEngine> {
+  loadEnvFile();
+
+  if (options.file) {
+    const secret = options.secret || process.env.JWT_SECRET;
+    if (!secret && signing) {
+      throw new CliError('Pass --secret or set JWT_SECRET to sign or verify tokens');
+    }
+    // User commands never issue tokens, so any key will do when none was given
+    return quickAuth({
+      adapter: new FileAdapter({ path: options.file }),
+      secret: secret || crypto.randomBytes(32).toString('hex'),
+    }).engine;
+  }
+
+  const configPath = path.resolve(options.config || DEFAULT_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) {
+    throw new CliError(options.config
+      ? `Config file not found: ${configPath}`
+      : `No adapter configured: pass --config <module> or --file <path>, or create ${DEFAULT_CONFIG_FILE}`);
+  }
+
+  // Resolved from the config file itself, so it picks up the app's own node_modules
+  const loaded = createRequire(configPath)(configPath);
+  const value = await (loaded?.default ?? loaded);
+
+  if (isEngine(value)) return value;
+  if (isEngine(value?.engine)) return value.engine;
+  if (value && typeof value === 'object' && value.adapter) {
+    return quickAuth({ ...value, secret: value.secret || options.secret || process.env.JWT_SECRET }).engine;
+  }
+  throw new CliError(`${configPath} must export a quickAuth() result, an AuthEngine or quickAuth options`);
+}
+
+// Accepts an id or an email address
+export async function findUser(engine: AuthEngine, identifier: string): Promise<User> {
+  const user = identifier.includes('@')
+    ? await engine.getUserByEmail(identifier)
+    : await engine.getUser(identifier);
+  if (!user) {
+    throw new CliError(`User not found: ${identifier}`);
+  }
+  return user;
+}
+
+export function isInteractive(options: GlobalOptions): boolean {
+  return !options.json && !!process.stdin.isTTY && !!process.stdout.isTTY;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+}
+
+// From --password, --password-stdin or, in a terminal, a hidden prompt
+export async function readPassword(
+  options: GlobalOptions,
+  commandOptions: { password?: string; passwordStdin?: boolean }
+): Promise<string> {
+  if (commandOptions.passwordStdin) {
+    return readStdin();
+  }
+  if (commandOptions.password !== undefined) {
+    return commandOptions.password;
+  }
+  if (!isInteractive(options)) {
+    throw new CliError('Pass --password or --password-stdin');
+  }
+
+  const { password } = await inquirer.prompt([
+    { type: 'password', name: 'password', message: 'Password:', mask: '*' },
+  ]);
+  return password;
+}
+
+export async function confirm(options: GlobalOptions, message: string, yes?: boolean): Promise<void> {
+  if (yes) return;
+  if (!isInteractive(options)) {
+    throw new CliError('Pass --yes to confirm');
+  }
+
+  const { confirmed } = await inquirer.prompt([
+    { type: 'confirm', name: 'confirmed', message, default: false },
+  ]);
+  if (!confirmed) {
+    throw new CliError('Cancelled');
+  }
+}
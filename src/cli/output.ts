@@ -0,0 +1,47 @@
+import chalk from 'chalk';
+import { z } from 'zod';
+
+export interface OutputOptions {
+  json?: boolean;
+}
+
+// An expected failure: the message is shown as is, without a stack trace
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+// JSON mode prints `data` and nothing else, so scripts can pipe stdout into a parser
+export function output(options: OutputOptions, data: unknown, render: () => void): void {
+  if (options.json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    render();
+  }
+}
+
+export function describeError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) => issue.message).join(', ');
+  }
+  return (error as Error)?.message || String(error);
+}
+
+export function reportError(options: OutputOptions, error: unknown): void {
+  const message = describeError(error);
+  if (options.json) {
+    console.log(JSON.stringify({ success: false, error: message }, null, 2));
+  } else {
+    console.error(chalk.red(`✖ ${message}`));
+    if (!(error instanceof CliError) && !(error instanceof z.ZodError) && process.env.DEBUG) {
+      console.error(error);
+    }
+  }
+  process.exitCode = 1;
+}
+
+export function formatDate(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : value === undefined ? '-' : String(value);
+}
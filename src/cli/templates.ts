@@ -0,0 +1,244 @@
+export type Framework = 'express' | 'fastify' | 'nextjs';
+export type DatabaseChoice = 'memory' | 'file' | 'sqlite';
+export type StrategyChoice = 'jwt' | 'session';
+
+export interface InitChoices {
+  framework: Framework;
+  database: DatabaseChoice;
+  strategy: StrategyChoice;
+}
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+export interface EnvVariable {
+  name: string;
+  // Written to .env; .env.example gets `example` instead
+  value: string;
+  example: string;
+  comment: string;
+}
+
+const PACKAGE = '@opencode/quick-auth';
+
+const DEFAULT_DB_PATHS: Record<DatabaseChoice, string> = {
+  memory: '',
+  file: './data/auth.json',
+  sqlite: './auth.db',
+};
+
+export function envVariables(choices: InitChoices, secret: string): EnvVariable[] {
+  const variables: EnvVariable[] = [];
+  if (choices.strategy === 'jwt') {
+    variables.push(
+      {
+        name: 'JWT_SECRET',
+        value: secret,
+        example: '',
+        comment: 'Signs access tokens. Generate one with `npx quick-auth generate-secret`',
+      },
+      {
+        name: 'AUTH_ISSUER',
+        value: 'http://localhost:3000',
+        example: 'https://api.example.com',
+        comment: 'Set as `iss` in every token and required when verifying',
+      },
+      {
+        name: 'AUTH_AUDIENCE',
+        value: 'my-app',
+        example: 'my-app',
+        comment: 'Identifies this API; tokens for other audiences are rejected',
+      }
+    );
+  }
+  if (choices.database !== 'memory') {
+    variables.push({
+      name: 'AUTH_DB_PATH',
+      value: DEFAULT_DB_PATHS[choices.database],
+      example: DEFAULT_DB_PATHS[choices.database],
+      comment: 'Where users and tokens are stored',
+    });
+  }
+  if (choices.framework !== 'nextjs') {
+    variables.push({ name: 'PORT', value: '3000', example: '3000', comment: 'HTTP port' });
+  }
+  return variables;
+}
+
+export function renderEnvFile(variables: EnvVariable[], example: boolean): string {
+  const header = example
+    ? '# Copy to .env and fill in. Never commit .env.\n'
+    : '# Generated by quick-auth init. Keep this file out of version control.\n';
+  return header + variables
+    .map((variable) => `\n# ${variable.comment}\n${variable.name}=${example ? variable.example : variable.value}\n`)
+    .join('');
+}
+
+export function generateProjectFiles(choices: InitChoices): GeneratedFile[] {
+  if (choices.framework === 'nextjs') {
+    return [
+      { path: 'lib/auth.ts', content: authModule(choices, true) },
+      { path: 'app/api/auth/[...auth]/route.ts', content: nextRoute() },
+    ];
+  }
+  return [
+    { path: 'auth.js', content: authModule(choices, false) },
+    { path: 'server.js', content: choices.framework === 'express' ? expressServer(choices) : fastifyServer() },
+  ];
+}
+
+// The shared setup: adapter, strategy and the env checks
+function authModule(choices: InitChoices, esm: boolean): string {
+  const names: string[] = [];
+  const lines: string[] = [];
+  const importLines: string[] = [];
+
+  if (choices.database === 'sqlite') {
+    importLines.push(esm ? `import Database from 'better-sqlite3';` : `const Database = require('better-sqlite3');`);
+  }
+
+  if (choices.strategy === 'jwt') {
+    names.push('quickAuth');
+    lines.push(
+      `if (!process.env.JWT_SECRET) {`,
+      `  throw new Error('JWT_SECRET is not set: copy .env.example to .env and fill it in');`,
+      `}`,
+      ``
+    );
+  } else {
+    names.push('createAuth', 'SessionStrategy');
+  }
+
+  let adapter: string | undefined;
+  if (choices.database === 'file') {
+    names.push('FileAdapter');
+    adapter = `new FileAdapter({ path: process.env.AUTH_DB_PATH || '${DEFAULT_DB_PATHS.file}' })`;
+  } else if (choices.database === 'sqlite') {
+    names.push('SQLiteAdapter');
+    adapter = `new SQLiteAdapter({ database: new Database(process.env.AUTH_DB_PATH || '${DEFAULT_DB_PATHS.sqlite}') })`;
+  } else if (choices.strategy === 'session') {
+    names.push('MemoryAdapter');
+    adapter = 'new MemoryAdapter()';
+  }
+  if (adapter) {
+    lines.push(`const adapter = ${adapter};`, ``);
+  }
+  // The bundled adapters also store revoked tokens and sessions
+  const persistent = choices.database !== 'memory';
+
+  const declaration = esm ? 'export const auth =' : 'const auth =';
+  if (choices.strategy === 'jwt') {
+    lines.push(
+      `${declaration} quickAuth({`,
+      `  secret: process.env.JWT_SECRET,`,
+      `  issuer: process.env.AUTH_ISSUER,`,
+      `  audience: process.env.AUTH_AUDIENCE,`,
+      ...(adapter ? [`  adapter,`] : []),
+      ...(persistent ? [`  revocationStore: adapter,`] : []),
+      `  // Short-lived access tokens, renewed through POST /auth/refresh`,
+      `  refreshToken: {},`,
+      `  throttle: {},`,
+      `});`
+    );
+  } else {
+    lines.push(
+      `${declaration} createAuth({`,
+      `  adapter,`,
+      `  strategy: new SessionStrategy(${persistent ? '{ store: adapter }' : ''}),`,
+      `  throttle: {},`,
+      `});`
+    );
+  }
+  if (!esm) {
+    lines.push(``, `module.exports = auth;`);
+  }
+
+  const packageImport = esm
+    ? `import { ${names.join(', ')} } from '${PACKAGE}';`
+    : `const { ${names.join(', ')} } = require('${PACKAGE}');`;
+  return [packageImport, ...importLines, ``, ...lines, ``].join('\n');
+}
+
+function expressServer(choices: InitChoices): string {
+  if (choices.strategy === 'session') {
+    return `const express = require('express');
+const { createSessionMiddleware } = require('${PACKAGE}');
+const auth = require('./auth');
+
+const app = express();
+app.use(express.json());
+
+// Sessions live in an HttpOnly cookie; send the csrfToken from login in the X-CSRF-Token header
+const session = createSessionMiddleware(auth.engine);
+
+app.post('/auth/register', session.register());
+app.post('/auth/login', session.login());
+app.post('/auth/logout', session.requireAuth(), session.logout());
+app.get('/auth/me', session.requireAuth(), auth.me());
+
+app.get('/api/protected', session.requireAuth(), (req, res) => {
+  res.json({ message: 'This is protected', user: req.user });
+});
+
+const port = Number(process.env.PORT) || 3000;
+app.listen(port, () => console.log(\`Server running on http://localhost:\${port}\`));
+`;
+  }
+
+  return `const express = require('express');
+const auth = require('./auth');
+
+const app = express();
+app.use(express.json());
+app.use(auth.middleware());
+
+// /auth/register, /auth/login, /auth/refresh, /auth/logout, /auth/me, ...
+app.use(auth.router());
+
+app.get('/api/protected', auth.requireAuth(), (req, res) => {
+  res.json({ message: 'This is protected', user: req.user });
+});
+
+const port = Number(process.env.PORT) || 3000;
+app.listen(port, () => console.log(\`Server running on http://localhost:\${port}\`));
+`;
+}
+
+function fastifyServer(): string {
+  return `const Fastify = require('fastify');
+const { fastifyAuthPlugin } = require('${PACKAGE}');
+const auth = require('./auth');
+
+async function main() {
+  const app = Fastify({ logger: true });
+
+  // /auth/register, /auth/login, /auth/logout, /auth/me, ...
+  await app.register(fastifyAuthPlugin, { engine: auth.engine, prefix: '/auth' });
+
+  app.get('/api/protected', { preHandler: app.requireAuth() }, async (request) => {
+    return { message: 'This is protected', user: request.user };
+  });
+
+  await app.listen({ port: Number(process.env.PORT) || 3000 });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
+`;
+}
+
+function nextRoute(): string {
+  return `import { createNextAuthHandlers } from '${PACKAGE}';
+import { auth } from '../../../../lib/auth';
+
+// Password hashing needs Node.js APIs
+export const runtime = 'nodejs';
+
+// /api/auth/register, /api/auth/login, /api/auth/logout, /api/auth/me, ...
+export const { GET, POST, PATCH, DELETE } = createNextAuthHandlers(auth.engine, { basePath: '/api/auth' });
+`;
+}
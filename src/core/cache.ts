@@ -0,0 +1,44 @@
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export class TTLCache<K, V> {
+  private entries: Map<K, CacheEntry<V>> = new Map();
+  private ttl: number;
+  private maxSize: number;
+
+  constructor(ttl: number, maxSize = 1000) {
+    this.ttl = ttl;
+    this.maxSize = maxSize;
+  }
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxSize) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+  }
+
+  delete(key: K): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
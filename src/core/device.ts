@@ -0,0 +1,51 @@
+import type { DeviceInfo } from '../types';
+
+// First match wins, so more specific agents come before the ones they imitate
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const BOT_PATTERN = /bot|crawler|spider|curl|wget|python-requests|node-fetch|axios|postman/i;
+
+function firstMatch(userAgent: string, patterns: [RegExp, string][]): string | undefined {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+}
+
+/**
+ * Rough browser, OS and device type from a User-Agent header. Only meant to help people
+ * recognize their own devices in a session list; never base security decisions on it.
+ */
+export function parseUserAgent(userAgent?: string): DeviceInfo {
+  if (!userAgent) {
+    return { type: 'unknown' };
+  }
+
+  const device: DeviceInfo = { type: 'desktop' };
+  if (BOT_PATTERN.test(userAgent)) {
+    device.type = 'bot';
+  } else if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    device.type = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    device.type = 'mobile';
+  }
+
+  const browser = firstMatch(userAgent, BROWSERS);
+  const os = firstMatch(userAgent, OPERATING_SYSTEMS);
+  if (browser) device.browser = browser;
+  if (os) device.os = os;
+  return device;
+}
@@ -0,0 +1,54 @@
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const UNITS: Record<string, number> = {
+  milliseconds: 1,
+  millisecond: 1,
+  msecs: 1,
+  msec: 1,
+  ms: 1,
+  seconds: SECOND,
+  second: SECOND,
+  secs: SECOND,
+  sec: SECOND,
+  s: SECOND,
+  minutes: MINUTE,
+  minute: MINUTE,
+  mins: MINUTE,
+  min: MINUTE,
+  m: MINUTE,
+  hours: HOUR,
+  hour: HOUR,
+  hrs: HOUR,
+  hr: HOUR,
+  h: HOUR,
+  days: DAY,
+  day: DAY,
+  d: DAY,
+  weeks: 7 * DAY,
+  week: 7 * DAY,
+  w: 7 * DAY,
+  years: 365.25 * DAY,
+  year: 365.25 * DAY,
+  yrs: 365.25 * DAY,
+  yr: 365.25 * DAY,
+  y: 365.25 * DAY,
+};
+
+// Follows jsonwebtoken's `expiresIn` (the `ms` package): numbers are seconds, unitless strings
+// are ms, and units may be spelled out, e.g. '1.5h', '2 days' or '1y'.
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    return value * 1000;
+  }
+
+  const match = typeof value === 'string' && /^(\d*\.?\d+) *([a-z]+)?$/i.exec(value.trim());
+  const unit = match ? (match[2] || 'ms').toLowerCase() : '';
+  if (!match || !(unit in UNITS)) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  return parseFloat(match[1]) * UNITS[unit];
+}
@@ -0,0 +1,509 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import { AuthEngine } from './engine';
+import { createAuthHandlers } from './http';
+import { MemoryAdapter } from '../adapters/memory';
+import { OAuthProvider, codeChallengeFor } from '../oauth/provider';
+import { JWTStrategy } from '../strategies/jwt';
+import { generateTotp } from './totp';
+import type { AuthConfig } from '../types';
+
+const SECRET = 'a3f9c2e17b4d8a6f0e5c1b9d7a2f4e8c6b0d3a5f7e9c1b2d4f6a8c0e2b4d6f8a';
+
+function createEngine(config: Partial<AuthConfig> = {}): { engine: AuthEngine; adapter: MemoryAdapter } {
+  const adapter = new MemoryAdapter();
+  const engine = new AuthEngine({ adapter, strategy: new JWTStrategy({ secret: SECRET }), ...config });
+  return { engine, adapter };
+}
+
+describe('register', () => {
+  it('stores only the configured fields', async () => {
+    const { engine, adapter } = createEngine();
+
+    const result = await engine.register({ email: 'ada@example.com', password: 'secret123', nickname: 'ada' });
+
+    expect(result.success).toBe(true);
+    expect(await adapter.findUserById(result.user!.id)).not.toHaveProperty('nickname');
+  });
+
+  it('never lets a signup choose its roles', async () => {
+    const { engine, adapter } = createEngine({
+      rbac: { roles: { admin: ['*'], user: [] }, roleField: 'accessLevel' },
+      validation: { fields: { role: z.string().optional(), accessLevel: z.string().optional() } },
+    });
+
+    const result = await engine.register({
+      email: 'mallory@example.com',
+      password: 'secret123',
+      role: 'admin',
+      roles: ['admin'],
+      accessLevel: 'admin',
+    });
+
+    const stored = await adapter.findUserById(result.user!.id);
+    expect(stored).not.toHaveProperty('role');
+    expect(stored).not.toHaveProperty('roles');
+    expect(stored).not.toHaveProperty('accessLevel');
+    expect(engine.can(stored!, 'users:delete')).toBe(false);
+  });
+
+  it('ignores protected fields even when validation.fields lists them', async () => {
+    const { engine, adapter } = createEngine({
+      emailVerification: { required: true },
+      callbacks: { sendEmail: async () => undefined },
+      validation: {
+        fields: {
+          id: z.string().optional(),
+          emailVerified: z.boolean().optional(),
+          status: z.string().optional(),
+          twoFactorEnabled: z.boolean().optional(),
+        },
+      },
+    });
+
+    const result = await engine.register({
+      email: 'mallory@example.com',
+      password: 'secret123',
+      id: 'chosen-id',
+      emailVerified: true,
+      status: 'active',
+      twoFactorEnabled: true,
+      twoFactorSecret: 'JBSWY3DPEHPK3PXP',
+      lockedUntil: new Date(),
+    });
+
+    const stored = await adapter.findUserByEmail('mallory@example.com');
+    expect(result.verificationRequired).toBe(true);
+    expect(stored!.id).not.toBe('chosen-id');
+    expect(stored).toMatchObject({ emailVerified: false });
+    for (const field of ['status', 'twoFactorEnabled', 'twoFactorSecret', 'lockedUntil']) {
+      expect(stored).not.toHaveProperty(field);
+    }
+  });
+
+  it('reads roles only from a configured roleField', () => {
+    const { engine } = createEngine({ rbac: { roles: { admin: ['*'] }, roleField: 'accessLevel' } });
+
+    expect(engine.hasRole({ id: '1', email: 'a@example.com', roles: ['admin'] }, ['admin'])).toBe(false);
+    expect(engine.hasRole({ id: '1', email: 'a@example.com', accessLevel: 'admin' }, ['admin'])).toBe(true);
+  });
+});
+
+describe('updateProfile', () => {
+  it('saves only the configured fields', async () => {
+    const { engine, adapter } = createEngine({ validation: { fields: { name: z.string().optional() } } });
+    const { user } = await engine.register({ email: 'mallory@example.com', password: 'secret123' });
+
+    const result = await engine.updateProfile(user!.id, { name: 'Mallory', isAdmin: true, plan: 'enterprise' });
+
+    const stored = await adapter.findUserById(user!.id);
+    expect(result.success).toBe(true);
+    expect(stored).toMatchObject({ name: 'Mallory' });
+    expect(stored).not.toHaveProperty('isAdmin');
+    expect(stored).not.toHaveProperty('plan');
+  });
+});
+
+describe('password reset', () => {
+  async function requestReset(config: Partial<AuthConfig> = {}) {
+    const tokens: string[] = [];
+    const { engine } = createEngine({
+      refreshToken: {},
+      callbacks: { sendEmail: async (email) => void tokens.push(email.token) },
+      ...config,
+    });
+    const signedUp = await engine.register({ email: 'ada@example.com', password: 'secret123' });
+    await engine.requestPasswordReset('ada@example.com');
+    return { engine, signedUp, tokens };
+  }
+
+  it('accepts each reset token only once', async () => {
+    const { engine, tokens } = await requestReset();
+
+    expect(await engine.resetPassword(tokens[0], 'newsecret456')).toEqual({ success: true });
+    expect(await engine.resetPassword(tokens[0], 'othersecret789'))
+      .toMatchObject({ success: false, code: 'RESET_TOKEN_INVALID' });
+    expect((await engine.login({ email: 'ada@example.com', password: 'newsecret456' })).success).toBe(true);
+    expect((await engine.login({ email: 'ada@example.com', password: 'secret123' })).success).toBe(false);
+  });
+
+  it('only accepts the latest token', async () => {
+    const { engine, tokens } = await requestReset();
+    await engine.requestPasswordReset('ada@example.com');
+
+    expect(await engine.resetPassword(tokens[0], 'newsecret456'))
+      .toMatchObject({ success: false, code: 'RESET_TOKEN_INVALID' });
+    expect((await engine.resetPassword(tokens[1], 'newsecret456')).success).toBe(true);
+  });
+
+  it('rejects an expired token', async () => {
+    const { engine, tokens } = await requestReset({ passwordReset: { expiresIn: '1ms' } });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(await engine.resetPassword(tokens[0], 'newsecret456'))
+      .toMatchObject({ success: false, code: 'RESET_TOKEN_INVALID' });
+    expect((await engine.login({ email: 'ada@example.com', password: 'secret123' })).success).toBe(true);
+  });
+
+  it('signs out every existing session', async () => {
+    const { engine, signedUp, tokens } = await requestReset({ loginSessions: {} });
+
+    await engine.resetPassword(tokens[0], 'newsecret456');
+
+    expect((await engine.verifyToken(signedUp.token!)).success).toBe(false);
+    expect((await engine.refresh(signedUp.refreshToken!)).success).toBe(false);
+  });
+});
+
+describe('refresh tokens', () => {
+  async function signUp(config: Partial<AuthConfig> = {}) {
+    const { engine, adapter } = createEngine({ refreshToken: {}, ...config });
+    const result = await engine.register({ email: 'ada@example.com', password: 'secret123' });
+    return { engine, adapter, result };
+  }
+
+  it('rotates on every use', async () => {
+    const { engine, result } = await signUp();
+
+    const rotated = await engine.refresh(result.refreshToken!);
+
+    expect(rotated).toMatchObject({ success: true, user: { email: 'ada@example.com' } });
+    expect(rotated.refreshToken).not.toBe(result.refreshToken);
+    expect((await engine.verifyToken(rotated.token!)).success).toBe(true);
+    expect(await engine.refresh(rotated.refreshToken!)).toMatchObject({ success: true });
+  });
+
+  it('revokes the whole family when a used token comes back', async () => {
+    const { engine, result } = await signUp();
+    const rotated = await engine.refresh(result.refreshToken!);
+
+    expect(await engine.refresh(result.refreshToken!)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_REUSED' });
+    expect(await engine.refresh(rotated.refreshToken!)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_INVALID' });
+  });
+
+  it('lets only one of two concurrent uses through', async () => {
+    const { engine, result } = await signUp();
+
+    const outcomes = await Promise.all([engine.refresh(result.refreshToken!), engine.refresh(result.refreshToken!)]);
+
+    expect(outcomes.filter((outcome) => outcome.success)).toHaveLength(1);
+  });
+
+  it('rejects expired and unknown tokens', async () => {
+    const { engine, result } = await signUp({ refreshToken: { expiresIn: '1ms' } });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(await engine.refresh(result.refreshToken!)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_EXPIRED' });
+    expect(await engine.refresh('not-a-token')).toMatchObject({ success: false, code: 'REFRESH_TOKEN_INVALID' });
+  });
+
+  it('stops working once its login session is signed out', async () => {
+    const { engine, result } = await signUp({ loginSessions: {} });
+    const { user } = await engine.verifyToken(result.token!);
+
+    await engine.logout(user!);
+
+    expect(await engine.refresh(result.refreshToken!)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_INVALID' });
+  });
+
+  it('is refused when its login session was revoked or has expired', async () => {
+    const { engine, adapter, result } = await signUp({ loginSessions: {} });
+    const [session] = await engine.listSessions(result.user!.id);
+    await adapter.updateLoginSession(session.id, { revokedAt: new Date() });
+
+    expect(await engine.refresh(result.refreshToken!)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_INVALID' });
+
+    const other = await engine.login({ email: 'ada@example.com', password: 'secret123' });
+    const [live] = await engine.listSessions(result.user!.id);
+    await adapter.updateLoginSession(live.id, { expiresAt: new Date(Date.now() - 1000) });
+
+    expect(await engine.refresh(other.refreshToken!)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_INVALID' });
+  });
+
+  it('stops working after logout', async () => {
+    const { engine, result } = await signUp();
+
+    await engine.revokeRefreshToken(result.refreshToken!);
+
+    expect(await engine.refresh(result.refreshToken!)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_INVALID' });
+  });
+});
+
+describe('login throttle', () => {
+  async function signUp(config: Partial<AuthConfig> = {}) {
+    const { engine } = createEngine({ throttle: {}, ...config });
+    await engine.register({ email: 'ada@example.com', password: 'secret123' });
+    return engine;
+  }
+
+  it('counts parallel attempts before any password check finishes', async () => {
+    const engine = await signUp();
+    const context = { ip: '203.0.113.7' };
+
+    const results = await Promise.all(Array.from({ length: 8 }, () =>
+      engine.login({ email: 'ada@example.com', password: 'wrong-password' }, context)));
+
+    expect(results.filter((result) => result.code === 'INVALID_CREDENTIALS')).toHaveLength(3);
+    expect(results.filter((result) => result.code === 'TOO_MANY_ATTEMPTS')).toHaveLength(5);
+  });
+
+  it('does not hold successful logins against the client', async () => {
+    const engine = await signUp({ throttle: { maxAttemptsPerClient: 2, freeAttempts: 10 } });
+    const context = { ip: '203.0.113.7' };
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect((await engine.login({ email: 'ada@example.com', password: 'secret123' }, context)).success).toBe(true);
+    }
+  });
+});
+
+describe('verifyToken', () => {
+  it('rejects tokens of a deleted user', async () => {
+    const { engine, adapter } = createEngine();
+    const result = await engine.register({ email: 'ada@example.com', password: 'secret123' });
+
+    await adapter.deleteUser(result.user!.id);
+
+    expect(await engine.verifyToken(result.token!)).toMatchObject({ success: false, code: 'TOKEN_INVALID' });
+  });
+
+  it('rejects tokens whose login session has expired', async () => {
+    const { engine } = createEngine({ loginSessions: { expiresIn: '1ms' } });
+    const result = await engine.register({ email: 'ada@example.com', password: 'secret123' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(await engine.verifyToken(result.token!)).toMatchObject({ success: false, code: 'TOKEN_EXPIRED' });
+  });
+});
+
+describe('two-factor login', () => {
+  let now = Date.UTC(2026, 0, 1);
+
+  async function enrolledUser(config: Partial<AuthConfig> = {}) {
+    const { engine, adapter } = createEngine({ twoFactor: { issuer: 'Acme', clock: () => now }, ...config });
+    const { user } = await engine.register({ email: 'ada@example.com', password: 'secret123' });
+    const { secret } = await engine.enrollTwoFactor(user!.id);
+    const { recoveryCodes } = await engine.confirmTwoFactor(user!.id, generateTotp(secret!, now));
+    now += 60 * 1000;
+    return { engine, adapter, secret: secret!, recoveryCodes: recoveryCodes! };
+  }
+
+  async function challenge(engine: AuthEngine): Promise<string> {
+    const result = await engine.login({ email: 'ada@example.com', password: 'secret123' });
+    expect(result).toMatchObject({ success: false, twoFactorRequired: true });
+    return result.challenge!;
+  }
+
+  it('asks for a code after the password and accepts a current one', async () => {
+    const { engine, secret } = await enrolledUser();
+
+    const result = await engine.completeTwoFactor(await challenge(engine), generateTotp(secret, now));
+
+    expect(result).toMatchObject({ success: true, user: { email: 'ada@example.com' } });
+    expect(typeof result.token).toBe('string');
+  });
+
+  it('accepts each code only once', async () => {
+    const { engine, secret } = await enrolledUser();
+    const code = generateTotp(secret, now);
+
+    expect((await engine.completeTwoFactor(await challenge(engine), code)).success).toBe(true);
+    expect(await engine.completeTwoFactor(await challenge(engine), code))
+      .toMatchObject({ success: false, code: 'TWO_FACTOR_CODE_INVALID' });
+  });
+
+  it('accepts a recovery code once', async () => {
+    const { engine, recoveryCodes } = await enrolledUser();
+
+    expect((await engine.completeTwoFactor(await challenge(engine), recoveryCodes[0])).success).toBe(true);
+    expect((await engine.completeTwoFactor(await challenge(engine), recoveryCodes[0])).success).toBe(false);
+  });
+
+  it('ends a challenge after too many wrong codes, even without a throttle', async () => {
+    const { engine, secret } = await enrolledUser({ twoFactor: { issuer: 'Acme', clock: () => now, maxAttempts: 3 } });
+    const token = await challenge(engine);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect(await engine.completeTwoFactor(token, '000000')).toMatchObject({ code: 'TWO_FACTOR_CODE_INVALID' });
+    }
+
+    expect(await engine.completeTwoFactor(token, generateTotp(secret, now)))
+      .toMatchObject({ success: false, code: 'TWO_FACTOR_CHALLENGE_INVALID' });
+    expect((await engine.completeTwoFactor(await challenge(engine), generateTotp(secret, now))).success).toBe(true);
+  });
+
+  it('ends the challenge on the first wrong code when the adapter keeps no counter', async () => {
+    const { engine, adapter, secret } = await enrolledUser();
+    Object.assign(adapter, { incrementVerificationTokenAttempts: undefined });
+    const token = await challenge(engine);
+
+    await engine.completeTwoFactor(token, '000000');
+
+    expect(await engine.completeTwoFactor(token, generateTotp(secret, now)))
+      .toMatchObject({ success: false, code: 'TWO_FACTOR_CHALLENGE_INVALID' });
+  });
+});
+
+describe('OAuth login', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test', alg: 'RS256', use: 'sig' }] };
+
+  // A stub OIDC provider: it checks the PKCE verifier against the challenge it was sent and
+  // signs the id_token with the nonce from the authorization URL, unless told otherwise
+  function createProvider(options: { nonce?: string } = {}) {
+    const issued: { challenge?: string; nonce?: string; verifier?: string } = {};
+    const provider = new OAuthProvider({
+      id: 'acme',
+      clientId: 'client',
+      redirectUri: 'https://app.example.com/auth/oauth/acme/callback',
+      authorizationUrl: 'https://id.acme.test/authorize',
+      tokenUrl: 'https://id.acme.test/token',
+      issuer: 'https://id.acme.test',
+      jwksUrl: 'https://id.acme.test/jwks',
+      fetch: async (url, init) => {
+        if (url.endsWith('/jwks')) return Response.json(jwks);
+
+        issued.verifier = new URLSearchParams(String(init?.body)).get('code_verifier') ?? undefined;
+        if (!issued.verifier || codeChallengeFor(issued.verifier) !== issued.challenge) {
+          return Response.json({ error: 'invalid_grant' }, { status: 400 });
+        }
+        const idToken = jwt.sign(
+          { sub: 'acme-1', email: 'ada@example.com', email_verified: true, nonce: options.nonce ?? issued.nonce },
+          privateKey,
+          { algorithm: 'RS256', keyid: 'test', issuer: 'https://id.acme.test', audience: 'client' }
+        );
+        return Response.json({ access_token: 'access', id_token: idToken });
+      },
+    });
+    return { provider, issued };
+  }
+
+  async function startFlow(options: { nonce?: string } = {}) {
+    const { provider, issued } = createProvider(options);
+    const { engine } = createEngine({ oauth: { providers: [provider] } });
+    const { url, state } = await engine.getOAuthAuthorizationUrl('acme', { redirectTo: '/dashboard' });
+    const query = new URL(url!).searchParams;
+    issued.challenge = query.get('code_challenge') ?? undefined;
+    issued.nonce = query.get('nonce') ?? undefined;
+    return { engine, issued, state: state! };
+  }
+
+  it('signs in with a PKCE-checked code and a matching nonce', async () => {
+    const { engine, issued, state } = await startFlow();
+
+    const result = await engine.completeOAuth('acme', { code: 'code', state, browserState: state });
+
+    expect(result).toMatchObject({ success: true, user: { email: 'ada@example.com' }, redirectTo: '/dashboard' });
+    expect(codeChallengeFor(issued.verifier!)).toBe(issued.challenge);
+  });
+
+  it('rejects a state that was not started in this browser', async () => {
+    const { engine, state } = await startFlow();
+    const other = await engine.getOAuthAuthorizationUrl('acme');
+
+    expect(await engine.completeOAuth('acme', { code: 'code', state, browserState: other.state }))
+      .toMatchObject({ success: false, code: 'OAUTH_STATE_INVALID' });
+    expect(await engine.completeOAuth('acme', { code: 'code', state }))
+      .toMatchObject({ success: false, code: 'OAUTH_STATE_INVALID' });
+  });
+
+  it('accepts each state only once', async () => {
+    const { engine, state } = await startFlow();
+
+    expect((await engine.completeOAuth('acme', { code: 'code', state, browserState: state })).success).toBe(true);
+    expect(await engine.completeOAuth('acme', { code: 'code', state, browserState: state }))
+      .toMatchObject({ success: false, code: 'OAUTH_STATE_INVALID' });
+  });
+
+  it('rejects an id_token issued for another nonce', async () => {
+    const { engine, state } = await startFlow({ nonce: 'someone-else' });
+
+    expect(await engine.completeOAuth('acme', { code: 'code', state, browserState: state }))
+      .toMatchObject({ success: false, code: 'OAUTH_ID_TOKEN_INVALID' });
+  });
+
+  it('binds the state to a cookie and redirects back with the tokens in the fragment', async () => {
+    const { provider, issued } = createProvider();
+    const { engine } = createEngine({ oauth: { providers: [provider] } });
+    const handlers = createAuthHandlers(engine);
+
+    const started = await handlers.oauthAuthorize({
+      headers: {},
+      params: { provider: 'acme' },
+      query: { redirectTo: '/dashboard' },
+    });
+    const query = new URL(started.headers!.Location).searchParams;
+    issued.challenge = query.get('code_challenge') ?? undefined;
+    issued.nonce = query.get('nonce') ?? undefined;
+    const cookie = started.headers!['Set-Cookie'].split(';')[0];
+
+    expect(started.headers!['Set-Cookie']).toContain('HttpOnly');
+
+    const callback = await handlers.oauthCallback({
+      headers: { cookie },
+      params: { provider: 'acme' },
+      query: { code: 'code', state: query.get('state') },
+    });
+    const location = new URL(callback.headers!.Location, 'https://app.example.com');
+
+    expect(callback.status).toBe(302);
+    expect(callback.body).not.toHaveProperty('token');
+    expect(location.pathname).toBe('/dashboard');
+    expect((await engine.verifyToken(new URLSearchParams(location.hash.slice(1)).get('token')!)).success).toBe(true);
+  });
+});
+
+describe('magic links', () => {
+  async function sendLink() {
+    let token = '';
+    const { engine } = createEngine({
+      magicLink: { autoRegister: true },
+      callbacks: { sendEmail: async (email) => void (token = email.token) },
+    });
+    await engine.requestMagicLink('ada@example.com');
+    return { engine, handlers: createAuthHandlers(engine), token };
+  }
+
+  it('only spends the token on the POST that confirms it', async () => {
+    const { handlers, token } = await sendLink();
+
+    const opened = await handlers.consumeMagicLink({ method: 'GET', headers: {}, query: { token } });
+    await handlers.consumeMagicLink({ method: 'GET', headers: {}, query: { token } });
+    const confirmed = await handlers.consumeMagicLink({ method: 'POST', headers: {}, body: { token } });
+
+    expect(opened).toMatchObject({ status: 200, body: { success: true } });
+    expect(opened.body).not.toHaveProperty('token');
+    expect(confirmed.body).toMatchObject({ success: true, token: expect.any(String) });
+  });
+
+  it('accepts each link only once', async () => {
+    const { engine, handlers, token } = await sendLink();
+
+    expect((await engine.consumeMagicLink(token)).success).toBe(true);
+    expect(await handlers.consumeMagicLink({ method: 'GET', headers: {}, query: { token } }))
+      .toMatchObject({ status: 401, body: { success: false, code: 'MAGIC_LINK_INVALID' } });
+    expect(await engine.consumeMagicLink(token)).toMatchObject({ success: false, code: 'MAGIC_LINK_INVALID' });
+  });
+});
+
+describe('email verification', () => {
+  it('only spends the token on the POST that confirms it', async () => {
+    let token = '';
+    const { engine, adapter } = createEngine({
+      emailVerification: { required: true },
+      callbacks: { sendEmail: async (email) => void (token = email.token) },
+    });
+    const { user } = await engine.register({ email: 'ada@example.com', password: 'secret123' });
+    const handlers = createAuthHandlers(engine);
+
+    const opened = await handlers.verifyEmail({ method: 'GET', headers: {}, query: { token } });
+    expect(opened).toMatchObject({ status: 200, body: { success: true } });
+    expect((await adapter.findUserById(user!.id))!.emailVerified).toBe(false);
+
+    expect((await handlers.verifyEmail({ method: 'POST', headers: {}, body: { token } })).status).toBe(200);
+    expect((await adapter.findUserById(user!.id))!.emailVerified).toBe(true);
+    expect(await handlers.verifyEmail({ method: 'GET', headers: {}, query: { token } }))
+      .toMatchObject({ status: 400, body: { code: 'VERIFICATION_TOKEN_INVALID' } });
+  });
+});
@@ -1,4 +1,4 @@
-import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { z } from 'zod';
 import type {
   AuthConfig,
@@ -9,9 +9,130 @@ import type {
   DatabaseAdapter,
   AuthStrategy,
   ValidationConfig,
+  VerificationTokenType,
+  VerificationTokenRecord,
+  TwoFactorEnrollmentResult,
+  TwoFactorConfirmationResult,
+  AuthRequestContext,
+  PasswordHasher,
+  AuthFieldError,
+  AuditLogQuery,
+  AuditLogEntry,
+  AuthEvent,
+  UserUpdateAction,
+  LinkedAccount,
+  OAuthAuthorizationResult,
+  OAuthCallbackResult,
+  ListUsersQuery,
+  ConfigIssue,
+  ApiKey,
+  ApiKeyRecord,
+  CreateApiKeyInput,
+  ApiKeyCreationResult,
+  LoginSession,
+  AccountStatus,
+  AccountStatusOptions,
+  UserDataExport,
 } from '../types';
+import { generateOpaqueToken, hashToken } from './tokens';
+import { parseDuration } from './duration';
+import { getUserRoles, matchesPermission, resolvePermissions } from './rbac';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import { LoginThrottle } from './throttle';
+import { TTLCache } from './cache';
+import { parseUserAgent } from './device';
+import {
+  DuplicateEmailError,
+  UserNotFoundError,
+  isAccountAlreadyLinkedError,
+  isDuplicateEmailError,
+} from '../adapters/errors';
+import { BcryptHasher } from '../hashers/bcrypt';
+import { MemoryAdapter } from '../adapters/memory';
+import { MemoryRevocationStore } from '../stores/revocation';
+import { AuthErrorCode, AuthFieldErrorCode, authFailure, fieldError } from './errors';
+import { localizeResult, negotiateLocale } from './messages';
+import { AuthEventEmitter } from './events';
+import { OAuthError, codeChallengeFor, generateCodeVerifier } from '../oauth/provider';
+import type { OAuthProfile, OAuthProvider } from '../oauth/provider';
 
-const SALT_ROUNDS = 12;
+const DEFAULT_REFRESH_TOKEN_EXPIRES_IN = '30d';
+const DEFAULT_REVOCATION_TTL = '30d';
+const DEFAULT_PASSWORD_RESET_EXPIRES_IN = '1h';
+const DEFAULT_EMAIL_VERIFICATION_EXPIRES_IN = '24h';
+const DEFAULT_MAGIC_LINK_EXPIRES_IN = '15m';
+const DEFAULT_OAUTH_STATE_EXPIRES_IN = '10m';
+const DEFAULT_TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+const DEFAULT_RECOVERY_CODE_COUNT = 10;
+const DEFAULT_TWO_FACTOR_MAX_ATTEMPTS = 5;
+const DEFAULT_USER_CACHE_TTL = '10s';
+const DEFAULT_API_KEY_PREFIX = 'qa';
+const DEFAULT_LOGIN_SESSION_EXPIRES_IN = '30d';
+const DEFAULT_DELETION_GRACE_PERIOD = '30d';
+const PAGE_SIZE = 100;
+// lastUsedAt and lastSeenAt are written at most this often, so busy clients don't turn every request into a write
+const TOUCH_INTERVAL = 60 * 1000;
+
+// Never returned to clients or copied into tokens
+const SENSITIVE_USER_FIELDS = [
+  'password',
+  'twoFactorSecret',
+  'twoFactorPendingSecret',
+  'twoFactorRecoveryCodes',
+  'twoFactorLastStep',
+];
+
+// Only changed through their dedicated flows, never through updateProfile
+const PROTECTED_USER_FIELDS = [
+  'id',
+  'email',
+  'password',
+  'role',
+  'roles',
+  'emailVerified',
+  'emailVerifiedAt',
+  'twoFactorEnabled',
+  'status',
+  'statusReason',
+  'lockedUntil',
+  'deletionRequestedAt',
+  'deleteAfter',
+  'createdAt',
+  'updatedAt',
+  ...SENSITIVE_USER_FIELDS,
+];
+
+const ACCOUNT_STATUSES: AccountStatus[] = ['active', 'disabled', 'locked', 'pending_deletion'];
+
+const ACCOUNT_STATUS_ERRORS: Record<Exclude<AccountStatus, 'active'>, AuthErrorCode> = {
+  disabled: AuthErrorCode.ACCOUNT_DISABLED,
+  locked: AuthErrorCode.ACCOUNT_LOCKED,
+  pending_deletion: AuthErrorCode.ACCOUNT_PENDING_DELETION,
+};
+
+// Date fields in adapters that keep users as JSON come back as strings
+function toTime(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const time = new Date(value as string | Date).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// Only same-site paths, so a crafted login link can't bounce users to another origin
+function isSafeRedirect(path: string): boolean {
+  return path.startsWith('/') && !path.startsWith('//') && !path.includes('\\');
+}
+
+const apiKeyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be at most 100 characters'),
+  scopes: z.array(z.string().regex(/^[\w.:*-]+$/, 'Invalid scope')).max(50).default([]),
+  expiresIn: z.union([z.string(), z.number().positive()]).optional(),
+});
+
+function toApiKey(record: ApiKeyRecord): ApiKey {
+  const apiKey: Partial<ApiKeyRecord> = { ...record };
+  delete apiKey.keyHash;
+  return apiKey as ApiKey;
+}
 
 const defaultLoginSchema = z.object({
   email: z.string().email('Invalid email format'),
@@ -28,57 +149,181 @@ export class AuthEngine {
   private strategy: AuthStrategy;
   private config: AuthConfig;
   private validationConfig: ValidationConfig;
+  private throttle?: LoginThrottle;
+  private passwordHasher: PasswordHasher;
+  private dummyHash?: Promise<string>;
+  private userCache: TTLCache<string, User>;
+  private oauthProviders: Map<string, OAuthProvider> = new Map();
+  readonly events: AuthEventEmitter;
 
   constructor(config: AuthConfig) {
     this.adapter = config.adapter;
     this.strategy = config.strategy;
     this.config = config;
     this.validationConfig = config.validation || {};
+    this.passwordHasher = config.passwordHasher || new BcryptHasher();
+
+    this.userCache = new TTLCache(
+      parseDuration(config.userCache?.ttl ?? DEFAULT_USER_CACHE_TTL),
+      config.userCache?.maxSize
+    );
+
+    this.events = new AuthEventEmitter(config.callbacks?.onError);
+    if (config.auditLog) {
+      const auditLog = config.auditLog;
+      this.events.onAny((event) => auditLog.record(this.toAuditEntry(event)).then(() => undefined));
+    }
+
+    if (config.throttle) {
+      this.throttle = new LoginThrottle(config.throttle, async (lockout) => {
+        await this.events.emit('lockout', { lockout });
+        await config.callbacks?.onLockout?.(lockout);
+      });
+    }
+
+    if (config.refreshToken && !this.supportsRefreshTokens()) {
+      throw new Error('Refresh tokens require an adapter that implements refresh token storage');
+    }
+    if (config.emailVerification?.required &&
+      (!config.callbacks?.sendEmail || !this.supportsVerificationTokens())) {
+      throw new Error('Email verification requires a sendEmail callback and an adapter that implements verification token storage');
+    }
+    if (config.magicLink && (!config.callbacks?.sendEmail || !this.supportsVerificationTokens())) {
+      throw new Error('Magic links require a sendEmail callback and an adapter that implements verification token storage');
+    }
+    if (config.twoFactor && !this.supportsVerificationTokens()) {
+      throw new Error('Two-factor authentication requires an adapter that implements verification token storage');
+    }
+    if (config.oauth) {
+      if (!this.supportsVerificationTokens() || !this.supportsLinkedAccounts()) {
+        throw new Error('OAuth login requires an adapter that implements verification token and linked account storage');
+      }
+      for (const provider of config.oauth.providers) {
+        if (this.oauthProviders.has(provider.id)) {
+          throw new Error(`Duplicate OAuth provider id: ${provider.id}`);
+        }
+        this.oauthProviders.set(provider.id, provider);
+      }
+    }
+    if (config.apiKeys) {
+      if (!this.supportsApiKeys()) {
+        throw new Error('API keys require an adapter that implements API key storage');
+      }
+      if (config.apiKeys.prefix !== undefined && !/^[A-Za-z0-9]+$/.test(config.apiKeys.prefix)) {
+        throw new Error('The API key prefix may only contain letters and digits');
+      }
+    }
+    if (config.loginSessions && !this.supportsLoginSessions()) {
+      throw new Error('Login sessions require an adapter that implements login session storage');
+    }
+  }
+
+  private buildPasswordSchema(): z.ZodString {
+    return this.validationConfig.password || 
+      z.string().min(6, 'Password must be at least 6 characters');
   }
 
   private buildRegisterSchema(): z.ZodObject<any> {
     const emailValidation = this.validationConfig.email || 
       z.string().email('Invalid email format');
-    
-    const passwordValidation = this.validationConfig.password || 
-      z.string().min(6, 'Password must be at least 6 characters');
 
-    let schema: any = {
+    const schema: any = {
       email: emailValidation,
-      password: passwordValidation,
+      password: this.buildPasswordSchema(),
     };
 
     if (this.validationConfig.fields) {
+      // Roles, ids, verification and status are never chosen at signup, the same as in updateProfile
+      const roleField = this.config.rbac?.roleField;
+      const protectedFields = roleField ? [...PROTECTED_USER_FIELDS, roleField] : PROTECTED_USER_FIELDS;
       Object.entries(this.validationConfig.fields).forEach(([field, validator]) => {
-        schema[field] = validator;
+        if (!protectedFields.includes(field)) {
+          schema[field] = validator;
+        }
       });
     }
 
-    return z.object(schema).passthrough();
+    // Unknown keys are stripped, so a signup can only set the fields configured above
+    return z.object(schema);
   }
 
-  private formatZodError(error: z.ZodError): Record<string, string> {
-    const errors: Record<string, string> = {};
-    error.errors.forEach((err) => {
-      const path = err.path.join('.');
-      if (path) {
-        errors[path] = err.message;
+  // Keeps the schema's own message while giving each field a code catalogs can translate
+  private validationFailure(error: z.ZodError, field?: string): AuthResult {
+    const fields: Record<string, AuthFieldError & { message: string }> = {};
+    error.errors.forEach((issue) => {
+      const path = issue.path.join('.') || field;
+      if (path && !fields[path]) {
+        fields[path] = { ...this.toFieldError(issue), message: issue.message };
       }
     });
-    return errors;
+
+    const first = Object.values(fields)[0];
+    return authFailure(AuthErrorCode.VALIDATION_FAILED, {
+      message: first?.message || error.errors[0]?.message,
+      fields,
+    });
+  }
+
+  private toFieldError(issue: z.ZodIssue): AuthFieldError {
+    switch (issue.code) {
+      case 'invalid_type':
+        return fieldError(issue.received === 'undefined' ? 'REQUIRED' : 'INVALID');
+      case 'too_small':
+        return issue.type === 'string' && issue.minimum === 1
+          ? fieldError('REQUIRED')
+          : fieldError('TOO_SHORT', { minimum: Number(issue.minimum) });
+      case 'too_big':
+        return fieldError('TOO_LONG', { maximum: Number(issue.maximum) });
+      case 'invalid_string':
+        return fieldError(issue.validation === 'email' ? 'INVALID_EMAIL' : 'INVALID');
+      default:
+        return fieldError('INVALID');
+    }
+  }
+
+  private fieldFailure(code: AuthErrorCode, field: string, fieldCode: AuthFieldErrorCode): AuthResult {
+    return authFailure(code, { fields: { [field]: fieldError(fieldCode) } });
+  }
+
+  // Reports an unexpected exception without passing its message on to the client
+  // Hands an unexpected exception to `callbacks.onError`; the HTTP integrations use it for handler failures
+  async reportError(error: unknown): Promise<void> {
+    try {
+      await this.config.callbacks?.onError?.(error);
+    } catch (callbackError) {
+      // Never let a failing error reporter mask the original failure
+    }
   }
 
-  async register(data: CreateUserData): Promise<AuthResult> {
+  private async internalError(error: unknown): Promise<AuthResult> {
+    await this.reportError(error);
+    return authFailure(AuthErrorCode.INTERNAL_ERROR);
+  }
+
+  resolveLocale(acceptLanguage?: string): string | undefined {
+    const localization = this.config.localization;
+    if (!localization) return undefined;
+    return negotiateLocale(acceptLanguage, Object.keys(localization.catalogs), localization.defaultLocale);
+  }
+
+  // Rewrites failure messages into the catalog for `locale`; results without a code pass through
+  localize<T extends AuthResult>(result: T, locale?: string): T {
+    const catalogs = this.config.localization?.catalogs;
+    const catalog = catalogs && locale ? catalogs[locale] : undefined;
+    return catalog ? localizeResult(result, catalog) as T : result;
+  }
+
+  async register(data: CreateUserData, context: AuthRequestContext = {}): Promise<AuthResult> {
     try {
       // Run custom validator if provided
       if (this.validationConfig.customValidator) {
         const customResult = this.validationConfig.customValidator(data);
         if (!customResult.success) {
-          return {
-            success: false,
-            error: 'Validation failed',
-            errors: customResult.errors,
-          };
+          const fields: Record<string, AuthFieldError & { message: string }> = {};
+          Object.entries(customResult.errors || {}).forEach(([field, message]) => {
+            fields[field] = { ...fieldError('INVALID'), message };
+          });
+          return authFailure(AuthErrorCode.VALIDATION_FAILED, { fields });
         }
       }
 
@@ -88,129 +333,1846 @@ export class AuthEngine {
       // Check if user exists
       const existingUser = await this.adapter.findUserByEmail(validated.email);
       if (existingUser) {
-        return { 
-          success: false, 
-          error: 'User already exists',
-          errors: { email: 'This email is already registered' }
-        };
+        return this.fieldFailure(AuthErrorCode.USER_EXISTS, 'email', 'ALREADY_REGISTERED');
       }
 
       // Hash password
-      const hashedPassword = await bcrypt.hash(validated.password, SALT_ROUNDS);
+      const hashedPassword = await this.passwordHasher.hash(validated.password);
       
       // Prepare user data (exclude password from custom fields, hash it separately)
       const { password, ...customFields } = validated;
       
+      const verificationRequired = !!this.config.emailVerification?.required;
       const user = await this.adapter.createUser({
         email: validated.email,
         password: hashedPassword,
         ...customFields,
+        ...(verificationRequired ? { emailVerified: false } : {}),
       });
 
       if (this.config.callbacks?.onRegister) {
         await this.config.callbacks.onRegister(user);
       }
+      await this.events.emit('register', { user: this.sanitizeUser(user) }, context);
 
-      const token = await this.strategy.generateToken(user);
+      if (verificationRequired) {
+        await this.sendVerificationEmail(user, 'email-verification', this.getEmailVerificationExpiresIn());
 
-      return {
-        success: true,
-        user: this.sanitizeUser(user),
-        token,
-      };
+        if (this.rejectsUnverified()) {
+          return { success: true, user: this.sanitizeUser(user), verificationRequired: true };
+        }
+        return { ...(await this.issueTokens(user, context)), verificationRequired: true };
+      }
+
+      return this.issueTokens(user, context);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const errors = this.formatZodError(error);
-        const firstError = Object.values(errors)[0] || 'Validation failed';
-        return { 
-          success: false, 
-          error: firstError,
-          errors 
-        };
+        return this.validationFailure(error);
       }
-      return { 
-        success: false, 
-        error: 'Registration failed: ' + (error as Error).message 
-      };
+      // Another request registered the same email between the lookup and the insert
+      if (isDuplicateEmailError(error)) {
+        return this.fieldFailure(AuthErrorCode.USER_EXISTS, 'email', 'ALREADY_REGISTERED');
+      }
+      return this.internalError(error);
     }
   }
 
-  async login(credentials: LoginCredentials): Promise<AuthResult> {
+  async login(credentials: LoginCredentials, context: AuthRequestContext = {}): Promise<AuthResult> {
     try {
       const validated = defaultLoginSchema.parse(credentials);
+
+      if (this.throttle) {
+        const retryAfter = await this.throttle.reserve(validated.email, context.ip);
+        if (retryAfter > 0) {
+          await this.events.emit('login.failed', { email: validated.email, reason: 'throttled' }, context);
+          return this.throttled(retryAfter);
+        }
+      }
       
       const user = await this.adapter.findUserByEmail(validated.email);
-      if (!user || !user.password) {
-        return { 
-          success: false, 
-          error: 'Invalid credentials',
-          errors: { general: 'Invalid email or password' }
-        };
+
+      // Compare against a throwaway hash when there is no user so both paths cost the same
+      const passwordHash = user?.password || await this.getDummyHash();
+      const isValid = await this.passwordHasher.verify(validated.password, passwordHash);
+      if (!user || !user.password || !isValid) {
+        await this.throttle?.recordFailure(validated.email, context.ip);
+        await this.events.emit('login.failed', {
+          email: validated.email,
+          userId: user?.id,
+          reason: user ? 'invalid_password' : 'unknown_user',
+        }, context);
+        return authFailure(AuthErrorCode.INVALID_CREDENTIALS, {
+          fields: { general: { ...fieldError('INVALID'), message: 'Invalid email or password' } },
+        });
       }
 
-      const isValid = await bcrypt.compare(validated.password, user.password);
-      if (!isValid) {
-        return { 
-          success: false, 
-          error: 'Invalid credentials',
-          errors: { general: 'Invalid email or password' }
-        };
+      await this.throttle?.recordSuccess(validated.email, context.ip);
+      await this.rehashIfNeeded(user, validated.password);
+
+      // Only after the password checks out, so the status can't be probed without it
+      const inactive = await this.rejectInactiveAccount(user, context);
+      if (inactive) return inactive;
+
+      if (this.requiresVerifiedEmail(user)) {
+        await this.events.emit('login.failed', {
+          email: user.email,
+          userId: user.id,
+          reason: 'email_not_verified',
+        }, context);
+        return { ...authFailure(AuthErrorCode.EMAIL_NOT_VERIFIED), verificationRequired: true };
+      }
+
+      if (this.config.twoFactor && user.twoFactorEnabled) {
+        return this.twoFactorChallenge(user);
       }
 
       if (this.config.callbacks?.onLogin) {
         await this.config.callbacks.onLogin(user);
       }
+      await this.events.emit('login', { user: this.sanitizeUser(user), method: 'password' }, context);
 
-      const token = await this.strategy.generateToken(user);
-
-      return {
-        success: true,
-        user: this.sanitizeUser(user),
-        token,
-      };
+      return this.issueTokens(user, context);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const errors = this.formatZodError(error);
-        const firstError = Object.values(errors)[0] || 'Validation failed';
-        return { 
-          success: false, 
-          error: firstError,
-          errors 
-        };
+        return this.validationFailure(error);
       }
-      return { 
-        success: false, 
-        error: 'Login failed: ' + (error as Error).message 
-      };
+      await this.events.emit('login.failed', {
+        email: typeof credentials?.email === 'string' ? credentials.email : undefined,
+        reason: 'error',
+      }, context);
+      return this.internalError(error);
     }
   }
 
-  async verifyToken(token: string): Promise<AuthResult> {
-    return this.strategy.verify(token);
+  async completeTwoFactor(
+    challenge: string,
+    code: string,
+    context: AuthRequestContext = {}
+  ): Promise<AuthResult> {
+    const record = await this.findVerificationToken(challenge, 'two-factor-challenge');
+    const user = record ? await this.adapter.findUserById(record.userId) : null;
+    if (!record || !user || !user.twoFactorEnabled) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_CHALLENGE_INVALID);
+    }
+
+    if (this.throttle) {
+      const retryAfter = await this.throttle.reserve(user.email, context.ip);
+      if (retryAfter > 0) {
+        await this.events.emit('login.failed', { email: user.email, userId: user.id, reason: 'throttled' }, context);
+        return this.throttled(retryAfter);
+      }
+    }
+
+    if (!(await this.verifySecondFactor(user, code))) {
+      await this.throttle?.recordFailure(user.email, context.ip);
+      await this.recordChallengeFailure(record);
+      await this.events.emit('login.failed', {
+        email: user.email,
+        userId: user.id,
+        reason: 'invalid_two_factor_code',
+      }, context);
+      return authFailure(AuthErrorCode.TWO_FACTOR_CODE_INVALID);
+    }
+
+    await this.throttle?.recordSuccess(user.email, context.ip);
+
+    if (!(await this.adapter.markVerificationTokenUsed!(record.id))) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_CHALLENGE_INVALID);
+    }
+
+    // The status may have changed since the password step
+    const inactive = await this.rejectInactiveAccount(user, context);
+    if (inactive) return inactive;
+
+    if (this.config.callbacks?.onLogin) {
+      await this.config.callbacks.onLogin(user);
+    }
+    await this.events.emit('login', { user: this.sanitizeUser(user), method: 'two-factor' }, context);
+
+    return this.issueTokens(user, context);
   }
 
-  async getUser(id: string): Promise<User | null> {
-    const user = await this.adapter.findUserById(id);
-    return user ? this.sanitizeUser(user) : null;
+  async enrollTwoFactor(userId: string): Promise<TwoFactorEnrollmentResult> {
+    if (!this.config.twoFactor) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_NOT_ENABLED);
+    }
+
+    const user = await this.adapter.findUserById(userId);
+    if (!user) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+    if (user.twoFactorEnabled) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED);
+    }
+
+    // Not active until confirmed with a first code, so a half-finished setup can't lock anyone out
+    const secret = generateTotpSecret();
+    await this.saveUser(userId, { twoFactorPendingSecret: secret });
+
+    return {
+      success: true,
+      secret,
+      uri: buildOtpauthUri({
+        secret,
+        accountName: user.email,
+        issuer: this.config.twoFactor.issuer,
+      }),
+    };
   }
 
-  async updateUser(id: string, data: Partial<User>): Promise<User> {
-    const user = await this.adapter.updateUser(id, data);
-    return this.sanitizeUser(user);
+  async confirmTwoFactor(
+    userId: string,
+    code: string,
+    context: AuthRequestContext = {}
+  ): Promise<TwoFactorConfirmationResult> {
+    if (!this.config.twoFactor) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_NOT_ENABLED);
+    }
+
+    const user = await this.adapter.findUserById(userId);
+    if (!user || !user.twoFactorPendingSecret) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_NOT_PENDING);
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, this.normalizeCode(code), {
+      timestamp: this.now(),
+      window: this.config.twoFactor.window,
+    });
+    if (step === null) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_CODE_INVALID);
+    }
+
+    const count = this.config.twoFactor.recoveryCodes ?? DEFAULT_RECOVERY_CODE_COUNT;
+    const recoveryCodes = Array.from({ length: count }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return code.slice(0, 5) + '-' + code.slice(5);
+    });
+
+    const updated = await this.saveUser(userId, {
+      twoFactorEnabled: true,
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorPendingSecret: null,
+      twoFactorLastStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.map((code) => hashToken(this.normalizeCode(code))),
+    });
+    await this.emitUserUpdated(updated, 'two_factor_enabled', ['twoFactorEnabled'], context);
+
+    return { success: true, user: this.sanitizeUser(updated), recoveryCodes };
   }
 
-  async deleteUser(id: string): Promise<void> {
-    await this.adapter.deleteUser(id);
+  async disableTwoFactor(userId: string, code: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    const user = await this.adapter.findUserById(userId);
+    if (!user || !user.twoFactorEnabled) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_NOT_ENABLED);
+    }
+
+    if (!(await this.verifySecondFactor(user, code))) {
+      return authFailure(AuthErrorCode.TWO_FACTOR_CODE_INVALID);
+    }
+
+    const updated = await this.saveUser(userId, {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorLastStep: null,
+      twoFactorRecoveryCodes: null,
+    });
+    await this.emitUserUpdated(updated, 'two_factor_disabled', ['twoFactorEnabled'], context);
+
+    return { success: true, user: this.sanitizeUser(updated) };
   }
 
-  async logout(user: User): Promise<void> {
-    if (this.config.callbacks?.onLogout) {
-      await this.config.callbacks.onLogout(user);
+  async refresh(refreshToken: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    if (!this.config.refreshToken) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'Refresh tokens are not enabled' });
+    }
+
+    const adapter = this.adapter as Required<DatabaseAdapter>;
+    const record = await adapter.findRefreshToken(hashToken(refreshToken || ''));
+    if (!record || record.revokedAt) {
+      return this.rejectToken(AuthErrorCode.REFRESH_TOKEN_INVALID, context, record?.userId);
+    }
+
+    if (record.usedAt || !(await adapter.markRefreshTokenUsed(record.id))) {
+      // A rotated token was presented again: assume it leaked and kill the family
+      await adapter.revokeRefreshTokenFamily(record.familyId);
+      return this.rejectToken(AuthErrorCode.REFRESH_TOKEN_REUSED, context, record.userId);
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      return this.rejectToken(AuthErrorCode.REFRESH_TOKEN_EXPIRED, context, record.userId);
+    }
+
+    // The family shares its id with the login session, so a signed-out session can't be refreshed back
+    if (this.config.loginSessions) {
+      const session = await adapter.findLoginSession(record.familyId);
+      if (!session || session.userId !== record.userId || session.revokedAt ||
+        session.expiresAt.getTime() <= Date.now()) {
+        await adapter.revokeRefreshTokenFamily(record.familyId);
+        return this.rejectToken(AuthErrorCode.REFRESH_TOKEN_INVALID, context, record.userId);
+      }
     }
+
+    const user = await this.adapter.findUserById(record.userId);
+    if (!user) {
+      await adapter.revokeRefreshTokenFamily(record.familyId);
+      return this.rejectToken(AuthErrorCode.REFRESH_TOKEN_INVALID, context, record.userId);
+    }
+
+    const statusError = this.getAccountStatusError(user);
+    if (statusError) {
+      await adapter.revokeRefreshTokenFamily(record.familyId);
+      return this.rejectToken(statusError, context, user.id);
+    }
+
+    return this.issueTokens(user, context, record.familyId);
   }
 
-  private sanitizeUser(user: User): User {
-    const { password, ...sanitized } = user;
-    return sanitized as User;
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    if (!this.config.refreshToken) return;
+
+    const adapter = this.adapter as Required<DatabaseAdapter>;
+    const record = await adapter.findRefreshToken(hashToken(refreshToken));
+    if (record) {
+      await adapter.revokeRefreshTokenFamily(record.familyId);
+    }
+  }
+
+  async requestMagicLink(email: string): Promise<AuthResult> {
+    const config = this.config.magicLink;
+    if (!config) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'Magic links are not enabled' });
+    }
+
+    const emailSchema = this.validationConfig.email || z.string().email('Invalid email format');
+    const validated = emailSchema.safeParse(email);
+    if (!validated.success) {
+      return this.validationFailure(validated.error, 'email');
+    }
+
+    const user = await this.adapter.findUserByEmail(validated.data);
+    if (!user && !config.autoRegister) {
+      // Same answer whether or not the account exists, so this can't be used to probe emails
+      return { success: true };
+    }
+
+    // Until the link is used there is no account, so a pending link is keyed by the address itself
+    const address = user ? user.email : validated.data;
+    const { token, expiresAt } = await this.createVerificationToken(
+      user ? user.id : address.toLowerCase(),
+      'magic-link',
+      config.expiresIn ?? DEFAULT_MAGIC_LINK_EXPIRES_IN,
+      { email: address }
+    );
+
+    await this.config.callbacks!.sendEmail!({
+      type: 'magic-link',
+      to: address,
+      token,
+      expiresAt,
+      user: user ? this.sanitizeUser(user) : undefined,
+    });
+
+    return { success: true };
+  }
+
+  // Looks a link up without using it, so mail scanners and prefetchers that follow it don't spend it
+  async checkMagicLink(token: string): Promise<AuthResult> {
+    const record = this.config.magicLink ? await this.findVerificationToken(token, 'magic-link') : null;
+    return record ? { success: true } : authFailure(AuthErrorCode.MAGIC_LINK_INVALID);
+  }
+
+  async consumeMagicLink(token: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    const record = this.config.magicLink ? await this.findVerificationToken(token, 'magic-link') : null;
+    if (!record || !(await this.adapter.markVerificationTokenUsed!(record.id))) {
+      await this.events.emit('login.failed', { reason: 'invalid_magic_link' }, context);
+      return authFailure(AuthErrorCode.MAGIC_LINK_INVALID);
+    }
+
+    const email: string | undefined = record.data?.email;
+    let user = await this.adapter.findUserById(record.userId);
+    if (!user && email && this.config.magicLink!.autoRegister) {
+      user = await this.registerPasswordless(email, context);
+    }
+    if (!user) {
+      await this.events.emit('login.failed', { email, reason: 'invalid_magic_link' }, context);
+      return authFailure(AuthErrorCode.MAGIC_LINK_INVALID);
+    }
+
+    const inactive = await this.rejectInactiveAccount(user, context);
+    if (inactive) return inactive;
+
+    // Following the link proves the address is theirs
+    if (user.emailVerified === false && user.email.toLowerCase() === email?.toLowerCase()) {
+      user = await this.saveUser(user.id, { emailVerified: true, emailVerifiedAt: new Date() });
+      await this.emitUserUpdated(user, 'email_verified', ['emailVerified'], context);
+    }
+
+    if (this.config.twoFactor && user.twoFactorEnabled) {
+      return this.twoFactorChallenge(user);
+    }
+
+    if (this.config.callbacks?.onLogin) {
+      await this.config.callbacks.onLogin(user);
+    }
+    await this.events.emit('login', { user: this.sanitizeUser(user), method: 'magic-link' }, context);
+
+    return this.issueTokens(user, context);
+  }
+
+  getOAuthProviders(): string[] {
+    return [...this.oauthProviders.keys()];
+  }
+
+  // Starts an authorization code flow; pass `linkUserId` to add the identity to a signed-in user
+  async getOAuthAuthorizationUrl(
+    providerId: string,
+    options: { redirectTo?: string; linkUserId?: string } = {}
+  ): Promise<OAuthAuthorizationResult> {
+    if (!this.config.oauth) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'OAuth login is not enabled' });
+    }
+    const provider = this.oauthProviders.get(providerId);
+    if (!provider) {
+      return authFailure(AuthErrorCode.OAUTH_PROVIDER_UNKNOWN);
+    }
+    if (options.redirectTo !== undefined && !isSafeRedirect(options.redirectTo)) {
+      return this.fieldFailure(AuthErrorCode.VALIDATION_FAILED, 'redirectTo', 'INVALID');
+    }
+
+    const state = generateOpaqueToken();
+    const codeVerifier = provider.usesPkce ? generateCodeVerifier() : undefined;
+    const nonce = provider.isOidc ? generateOpaqueToken() : undefined;
+    const expiresIn = this.config.oauth!.stateExpiresIn ?? DEFAULT_OAUTH_STATE_EXPIRES_IN;
+
+    // Stored directly rather than through createVerificationToken: anonymous flows in
+    // other tabs or browsers must not invalidate each other
+    await this.adapter.createVerificationToken!({
+      type: 'oauth-state',
+      userId: options.linkUserId || '',
+      tokenHash: hashToken(state),
+      expiresAt: new Date(Date.now() + parseDuration(expiresIn)),
+      data: {
+        provider: provider.id,
+        codeVerifier,
+        nonce,
+        redirectTo: options.redirectTo,
+        linkUserId: options.linkUserId,
+      },
+    });
+
+    const url = provider.buildAuthorizationUrl({
+      state,
+      codeChallenge: codeVerifier ? codeChallengeFor(codeVerifier) : undefined,
+      nonce,
+    });
+    return { success: true, url, state };
+  }
+
+  // `browserState` is the state kept by the browser that started the flow (the HTTP handlers use a
+  // cookie); it must match, so a callback URL from someone else's flow can't sign this browser in
+  async completeOAuth(
+    providerId: string,
+    params: { code?: string; state?: string; error?: string; browserState?: string },
+    context: AuthRequestContext = {}
+  ): Promise<OAuthCallbackResult> {
+    if (!this.config.oauth) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'OAuth login is not enabled' });
+    }
+    const provider = this.oauthProviders.get(providerId);
+    if (!provider) {
+      return authFailure(AuthErrorCode.OAUTH_PROVIDER_UNKNOWN);
+    }
+
+    try {
+      const boundToBrowser = typeof params.state === 'string' && typeof params.browserState === 'string' &&
+        this.safeEqual(params.browserState, params.state);
+      const record = boundToBrowser ? await this.findVerificationToken(params.state as string, 'oauth-state') : null;
+      if (!record || record.data?.provider !== provider.id ||
+        !(await this.adapter.markVerificationTokenUsed!(record.id))) {
+        await this.events.emit('login.failed', { reason: 'oauth_failed' }, context);
+        return authFailure(AuthErrorCode.OAUTH_STATE_INVALID);
+      }
+      const { codeVerifier, nonce, redirectTo, linkUserId } = record.data;
+
+      if (params.error || typeof params.code !== 'string' || !params.code) {
+        await this.events.emit('login.failed', { userId: linkUserId, reason: 'oauth_failed' }, context);
+        return authFailure(
+          params.error === 'access_denied' ? AuthErrorCode.OAUTH_ACCESS_DENIED : AuthErrorCode.OAUTH_FAILED
+        );
+      }
+
+      let profile: OAuthProfile;
+      try {
+        const tokens = await provider.exchangeCode(params.code, codeVerifier);
+        profile = await provider.getProfile(tokens, nonce);
+      } catch (error) {
+        if (!(error instanceof OAuthError)) throw error;
+        // Provider misbehaviour is worth reporting, but the client only learns the code
+        await this.config.callbacks?.onError?.(error);
+        await this.events.emit('login.failed', { userId: linkUserId, reason: 'oauth_failed' }, context);
+        return authFailure(AuthErrorCode[error.code]);
+      }
+
+      const result = linkUserId
+        ? await this.linkOAuthProfile(linkUserId, provider.id, profile, context)
+        : await this.signInWithOAuth(provider.id, profile, context);
+      return redirectTo ? { ...result, redirectTo } : result;
+    } catch (error) {
+      // Someone else linked the same identity between the lookup and the insert
+      if (isAccountAlreadyLinkedError(error)) {
+        return authFailure(AuthErrorCode.OAUTH_ACCOUNT_LINKED);
+      }
+      return this.internalError(error);
+    }
+  }
+
+  async listLinkedAccounts(userId: string): Promise<LinkedAccount[]> {
+    return this.supportsLinkedAccounts() ? this.adapter.listLinkedAccounts!(userId) : [];
+  }
+
+  // Removes every identity the user linked at `providerId`
+  async unlinkAccount(userId: string, providerId: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    if (!this.config.oauth) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'OAuth login is not enabled' });
+    }
+
+    const user = await this.adapter.findUserById(userId);
+    if (!user) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+
+    const accounts = await this.adapter.listLinkedAccounts!(userId);
+    const matching = accounts.filter((account) => account.provider === providerId);
+    if (matching.length === 0) {
+      return authFailure(AuthErrorCode.NOT_FOUND, { message: 'No linked account for this provider' });
+    }
+    // Without a password, a magic link or another provider the user could never sign in again
+    if (!user.password && !this.config.magicLink && accounts.length === matching.length) {
+      return authFailure(AuthErrorCode.OAUTH_LAST_LOGIN_METHOD);
+    }
+
+    for (const account of matching) {
+      await this.adapter.unlinkAccount!(account.provider, account.providerAccountId);
+      await this.events.emit('account.unlinked', {
+        user: this.sanitizeUser(user),
+        provider: account.provider,
+        providerAccountId: account.providerAccountId,
+      }, context);
+    }
+    return { success: true };
+  }
+
+  // Keys look like `qa_1a2b3c4d5e6f_<secret>`; the part before the secret is stored for lookup
+  isApiKey(token: string): boolean {
+    return !!this.config.apiKeys && token.startsWith(`${this.getApiKeyPrefix()}_`);
+  }
+
+  async createApiKey(
+    userId: string,
+    input: CreateApiKeyInput,
+    context: AuthRequestContext = {}
+  ): Promise<ApiKeyCreationResult> {
+    if (!this.config.apiKeys) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'API keys are not enabled' });
+    }
+
+    const validated = apiKeyInputSchema.safeParse(input);
+    if (!validated.success) {
+      return this.validationFailure(validated.error);
+    }
+    const { name, expiresIn } = validated.data;
+    const scopes = [...new Set(validated.data.scopes)];
+
+    const allowed = this.config.apiKeys.scopes;
+    const unknown = allowed && scopes.find((scope) => !allowed.some((granted) => matchesPermission(granted, scope)));
+    if (unknown) {
+      return authFailure(AuthErrorCode.VALIDATION_FAILED, {
+        message: `Unknown scope: ${unknown}`,
+        fields: { scopes: fieldError('INVALID') },
+      });
+    }
+
+    let expiresAt: Date | undefined;
+    if (expiresIn !== undefined) {
+      try {
+        expiresAt = new Date(Date.now() + parseDuration(expiresIn));
+      } catch (error) {
+        return this.fieldFailure(AuthErrorCode.VALIDATION_FAILED, 'expiresIn', 'INVALID');
+      }
+    }
+
+    const user = await this.adapter.findUserById(userId);
+    if (!user) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+
+    const prefix = `${this.getApiKeyPrefix()}_${crypto.randomBytes(6).toString('hex')}`;
+    const key = `${prefix}_${generateOpaqueToken()}`;
+    const record = await this.adapter.createApiKey!({
+      userId,
+      name,
+      prefix,
+      keyHash: hashToken(key),
+      scopes,
+      expiresAt,
+    });
+
+    const apiKey = toApiKey(record);
+    await this.events.emit('api_key.created', { user: this.sanitizeUser(user), apiKey }, context);
+    return { success: true, apiKey, key };
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    if (!this.supportsApiKeys()) return [];
+    const records = await this.adapter.listApiKeys!(userId);
+    return records.map(toApiKey);
+  }
+
+  async revokeApiKey(userId: string, keyId: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    if (!this.config.apiKeys) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'API keys are not enabled' });
+    }
+
+    const records = await this.adapter.listApiKeys!(userId);
+    const record = records.find((candidate) => candidate.id === keyId);
+    if (!record) {
+      return authFailure(AuthErrorCode.NOT_FOUND, { message: 'API key not found' });
+    }
+    if (record.revokedAt) {
+      return { success: true, apiKey: toApiKey(record) };
+    }
+
+    const revokedAt = new Date();
+    await this.adapter.updateApiKey!(record.id, { revokedAt });
+    const apiKey = toApiKey({ ...record, revokedAt });
+
+    const user = await this.adapter.findUserById(userId);
+    if (user) {
+      await this.events.emit('api_key.revoked', { user: this.sanitizeUser(user), apiKey }, context);
+    }
+    return { success: true, apiKey };
+  }
+
+  // Resolves a key to its owner; the key's scopes come back as `apiKey.scopes`
+  async verifyApiKey(key: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    if (!this.config.apiKeys || typeof key !== 'string') {
+      return this.rejectToken(AuthErrorCode.API_KEY_INVALID, context);
+    }
+
+    const match = /^([A-Za-z0-9]+_[0-9a-f]{12})_[\w-]+$/.exec(key);
+    const record = match && this.isApiKey(key) ? await this.adapter.findApiKeyByPrefix!(match[1]) : null;
+    if (!record || !this.safeEqual(record.keyHash, hashToken(key))) {
+      return this.rejectToken(AuthErrorCode.API_KEY_INVALID, context);
+    }
+    if (record.revokedAt) {
+      return this.rejectToken(AuthErrorCode.API_KEY_REVOKED, context, record.userId);
+    }
+    const now = Date.now();
+    if (record.expiresAt && record.expiresAt.getTime() <= now) {
+      return this.rejectToken(AuthErrorCode.API_KEY_EXPIRED, context, record.userId);
+    }
+
+    const user = await this.loadUser(record.userId);
+    if (!user) {
+      return this.rejectToken(AuthErrorCode.API_KEY_INVALID, context, record.userId);
+    }
+    const statusError = this.getAccountStatusError(user);
+    if (statusError) {
+      return this.rejectToken(statusError, context, user.id);
+    }
+
+    let lastUsedAt = record.lastUsedAt;
+    if (!lastUsedAt || now - lastUsedAt.getTime() >= TOUCH_INTERVAL) {
+      lastUsedAt = new Date(now);
+      await this.adapter.updateApiKey!(record.id, { lastUsedAt });
+    }
+    return { success: true, user, apiKey: toApiKey({ ...record, lastUsedAt }) };
+  }
+
+  async requestPasswordReset(email: string): Promise<AuthResult> {
+    if (!this.config.callbacks?.sendEmail || !this.supportsVerificationTokens()) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'Password reset is not configured' });
+    }
+
+    const user = typeof email === 'string' ? await this.adapter.findUserByEmail(email) : null;
+    if (user) {
+      const expiresIn = this.config.passwordReset?.expiresIn ?? DEFAULT_PASSWORD_RESET_EXPIRES_IN;
+      await this.sendVerificationEmail(user, 'password-reset', expiresIn);
+    }
+
+    // Same answer whether or not the account exists, so this can't be used to probe emails
+    return { success: true };
+  }
+
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    context: AuthRequestContext = {}
+  ): Promise<AuthResult> {
+    const record = await this.findVerificationToken(token, 'password-reset');
+    if (!record) {
+      return authFailure(AuthErrorCode.RESET_TOKEN_INVALID);
+    }
+
+    const validated = this.buildPasswordSchema().safeParse(newPassword);
+    if (!validated.success) {
+      return this.validationFailure(validated.error, 'password');
+    }
+
+    const adapter = this.adapter as Required<DatabaseAdapter>;
+    if (!(await adapter.markVerificationTokenUsed(record.id))) {
+      return authFailure(AuthErrorCode.RESET_TOKEN_INVALID);
+    }
+
+    const hashedPassword = await this.passwordHasher.hash(validated.data);
+    const user = await this.saveUser(record.userId, { password: hashedPassword });
+    await adapter.deleteVerificationTokens(record.userId, 'password-reset');
+    await this.revokeAllTokens(record.userId);
+    await this.emitUserUpdated(user, 'password_reset', ['password'], context);
+
+    return { success: true };
+  }
+
+  // Like checkMagicLink, this leaves the token for the request that confirms it
+  async checkEmailVerification(token: string): Promise<AuthResult> {
+    const record = await this.findVerificationToken(token, 'email-verification');
+    return record ? { success: true } : authFailure(AuthErrorCode.VERIFICATION_TOKEN_INVALID);
+  }
+
+  async verifyEmail(token: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    const record = await this.findVerificationToken(token, 'email-verification');
+    if (!record || !(await this.adapter.markVerificationTokenUsed!(record.id))) {
+      return authFailure(AuthErrorCode.VERIFICATION_TOKEN_INVALID);
+    }
+
+    const user = await this.saveUser(record.userId, {
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+    });
+    await this.emitUserUpdated(user, 'email_verified', ['emailVerified'], context);
+
+    return { success: true, user: this.sanitizeUser(user) };
+  }
+
+  async resendVerification(email: string): Promise<AuthResult> {
+    if (!this.config.emailVerification?.required) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'Email verification is not enabled' });
+    }
+
+    const user = typeof email === 'string' ? await this.adapter.findUserByEmail(email) : null;
+    if (user && user.emailVerified === false) {
+      await this.sendVerificationEmail(user, 'email-verification', this.getEmailVerificationExpiresIn());
+    }
+
+    return { success: true };
+  }
+
+  requiresVerifiedEmail(user: User): boolean {
+    return this.rejectsUnverified() && user.emailVerified === false;
+  }
+
+  async verifyToken(token: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    if (this.isApiKey(token)) {
+      return this.verifyApiKey(token, context);
+    }
+
+    const result = await this.strategy.verify(token);
+    if (!result.success || !result.user) {
+      await this.events.emit('token.rejected', { reason: result.code || AuthErrorCode.TOKEN_INVALID }, context);
+      return result;
+    }
+    // Tokens issued before session tracking was turned on carry no sessionId and skip this check
+    if (this.config.loginSessions && typeof result.user.sessionId === 'string') {
+      const rejected = await this.checkLoginSession(result.user.sessionId, result.user.id, context);
+      if (rejected) return rejected;
+    }
+    // Tokens carry no status, so it is read from the (briefly cached) user record
+    const user = await this.loadUser(result.user.id);
+    if (!user) {
+      // Deleted or purged since the token was issued
+      return this.rejectToken(AuthErrorCode.TOKEN_INVALID, context, result.user.id);
+    }
+    const statusError = this.getAccountStatusError(user);
+    if (statusError) {
+      return this.rejectToken(statusError, context, result.user.id);
+    }
+    if (!this.config.revocationStore) {
+      return result;
+    }
+
+    const store = this.config.revocationStore;
+    const { jti, iat } = result.user;
+
+    if (jti && await store.isTokenRevoked(jti)) {
+      return this.rejectToken(AuthErrorCode.TOKEN_REVOKED, context, result.user.id);
+    }
+
+    // `iat` has second precision, so tokens issued in the same second as the
+    // cutoff survive; that keeps the token handed out right after a reset valid
+    const cutoff = await store.getUserTokensRevokedBefore(result.user.id);
+    if (cutoff && typeof iat === 'number' && iat < Math.floor(cutoff.getTime() / 1000)) {
+      return this.rejectToken(AuthErrorCode.TOKEN_REVOKED, context, result.user.id);
+    }
+
+    return result;
+  }
+
+  async revokeToken(user: User): Promise<void> {
+    if (!this.config.revocationStore || !user.jti) return;
+
+    const expiresAt = typeof user.exp === 'number'
+      ? new Date(user.exp * 1000)
+      : new Date(Date.now() + parseDuration(DEFAULT_REVOCATION_TTL));
+    await this.config.revocationStore.revokeToken(user.jti, expiresAt);
+  }
+
+  async revokeAllTokens(userId: string, before: Date = new Date()): Promise<void> {
+    if (this.strategy.revokeUser) {
+      await this.strategy.revokeUser(userId);
+    }
+    if (this.config.revocationStore) {
+      await this.config.revocationStore.revokeUserTokens(userId, before);
+    }
+    if (this.config.refreshToken && this.adapter.revokeUserRefreshTokens) {
+      await this.adapter.revokeUserRefreshTokens(userId, before);
+    }
+    if (this.config.loginSessions) {
+      const sessions = await this.adapter.listLoginSessions!(userId);
+      for (const session of sessions) {
+        if (!session.revokedAt && session.createdAt.getTime() <= before.getTime()) {
+          await this.adapter.updateLoginSession!(session.id, { revokedAt: new Date() });
+        }
+      }
+    }
+  }
+
+  // Active sessions only, most recently used first
+  async listSessions(userId: string): Promise<LoginSession[]> {
+    if (!this.config.loginSessions) return [];
+
+    const now = Date.now();
+    const sessions = await this.adapter.listLoginSessions!(userId);
+    return sessions
+      .filter((session) => !session.revokedAt && session.expiresAt.getTime() > now)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  // Signs one device out: its tokens are rejected from the next request on and its refresh token stops working
+  async revokeSession(userId: string, sessionId: string, context: AuthRequestContext = {}): Promise<AuthResult> {
+    if (!this.config.loginSessions) {
+      return authFailure(AuthErrorCode.FEATURE_DISABLED, { message: 'Session tracking is not enabled' });
+    }
+
+    const session = typeof sessionId === 'string' ? await this.adapter.findLoginSession!(sessionId) : null;
+    if (!session || session.userId !== userId) {
+      return authFailure(AuthErrorCode.NOT_FOUND, { message: 'Session not found' });
+    }
+    if (session.revokedAt) {
+      return { success: true };
+    }
+
+    session.revokedAt = new Date();
+    await this.adapter.updateLoginSession!(session.id, { revokedAt: session.revokedAt });
+    if (this.config.refreshToken) {
+      await this.adapter.revokeRefreshTokenFamily!(session.id);
+    }
+    await this.events.emit('session.revoked', { userId, session }, context);
+    return { success: true };
+  }
+
+  getStrategy(): AuthStrategy {
+    return this.strategy;
+  }
+
+  // Settings that work but are unsafe; `production` defaults to NODE_ENV === 'production'
+  checkConfiguration(options: { production?: boolean } = {}): ConfigIssue[] {
+    const production = options.production ?? process.env.NODE_ENV === 'production';
+    const issues = this.strategy.checkConfiguration?.({ production }) || [];
+
+    if (production && this.adapter instanceof MemoryAdapter) {
+      issues.push({
+        severity: 'error',
+        code: 'MEMORY_ADAPTER',
+        message: 'MemoryAdapter loses every account on restart and isn\'t shared between processes',
+        hint: 'Use the SQLite or File adapter, or your own',
+      });
+    }
+    if (production && this.config.revocationStore instanceof MemoryRevocationStore) {
+      issues.push({
+        severity: 'warning',
+        code: 'MEMORY_REVOCATION_STORE',
+        message: 'Revoked tokens are tracked in memory, so logged-out tokens work again after a restart',
+        hint: 'Pass `revocationStore: adapter` with the SQLite or File adapter',
+      });
+    }
+    if (!this.config.throttle) {
+      issues.push({
+        severity: 'warning',
+        code: 'NO_LOGIN_THROTTLE',
+        message: 'Login attempts are not throttled, so passwords can be guessed at full speed',
+        hint: 'Set `throttle: {}` to enable backoff and lockouts',
+      });
+    }
+    if (!this.validationConfig.password) {
+      issues.push({
+        severity: 'warning',
+        code: 'WEAK_PASSWORD_POLICY',
+        message: 'Passwords only need 6 characters',
+        hint: 'Set validation.password, e.g. z.string().min(12)',
+      });
+    }
+    return issues;
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const user = await this.adapter.findUserById(id);
+    return user ? this.sanitizeUser(user) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const user = await this.adapter.findUserByEmail(email);
+    return user ? this.sanitizeUser(user) : null;
+  }
+
+  async listUsers(query: ListUsersQuery = {}): Promise<User[]> {
+    if (typeof this.adapter.listUsers !== 'function') {
+      throw new Error('The adapter does not implement listUsers');
+    }
+    const users = await this.adapter.listUsers(query);
+    return users.map((user) => this.sanitizeUser(user));
+  }
+
+  // Trusted create for admin tooling: checks the email and password rules but skips custom
+  // validators, onRegister and verification emails. Throws a ZodError or DuplicateEmailError.
+  async createUser(data: CreateUserData, context: AuthRequestContext = {}): Promise<User> {
+    const emailSchema = this.validationConfig.email || z.string().email('Invalid email format');
+    const fields: CreateUserData = { ...data, email: emailSchema.parse(data.email) };
+    delete fields.id;
+
+    if (data.password !== undefined) {
+      fields.password = await this.passwordHasher.hash(this.buildPasswordSchema().parse(data.password));
+    }
+
+    const user = await this.adapter.createUser(fields);
+    await this.events.emit('register', { user: this.sanitizeUser(user) }, context);
+    return this.sanitizeUser(user);
+  }
+
+  // Writes the configured role field; with RBAC configured the role must be one of its roles
+  async setUserRole(id: string, role: string, context: AuthRequestContext = {}): Promise<User> {
+    const rbac = this.config.rbac;
+    if (rbac && !Object.prototype.hasOwnProperty.call(rbac.roles, role)) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+    return this.updateUser(id, { [rbac?.roleField || 'role']: role }, context);
+  }
+
+  // Fresh from the adapter, but cached briefly so per-request lookups stay cheap
+  async loadUser(id: string): Promise<User | null> {
+    const cached = this.userCache.get(id);
+    if (cached) return cached;
+
+    const user = await this.adapter.findUserById(id);
+    if (!user) return null;
+
+    const sanitized = this.sanitizeUser(user);
+    this.userCache.set(id, sanitized);
+    return sanitized;
+  }
+
+  // Trusted update for admin tooling: hashes a plain `password` and keeps emails unique
+  async updateUser(id: string, data: Partial<User>, context: AuthRequestContext = {}): Promise<User> {
+    const changes = { ...data };
+    delete changes.id;
+
+    if (typeof changes.password === 'string') {
+      changes.password = await this.passwordHasher.hash(changes.password);
+    }
+    if (changes.email) {
+      const existing = await this.adapter.findUserByEmail(changes.email);
+      if (existing && existing.id !== id) {
+        throw new DuplicateEmailError(changes.email);
+      }
+    }
+
+    const user = await this.saveUser(id, changes);
+    await this.emitUserUpdated(user, 'admin', Object.keys(changes), context);
+    return this.sanitizeUser(user);
+  }
+
+  async updateProfile(
+    userId: string,
+    data: Record<string, any>,
+    context: AuthRequestContext = {}
+  ): Promise<AuthResult> {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return authFailure(AuthErrorCode.INVALID_REQUEST, { message: 'Invalid profile data' });
+    }
+
+    const roleField = this.config.rbac?.roleField;
+    const protectedFields = roleField ? [...PROTECTED_USER_FIELDS, roleField] : PROTECTED_USER_FIELDS;
+    const rejected = Object.keys(data).filter((field) => protectedFields.includes(field));
+    if (rejected.length > 0) {
+      const fields: Record<string, AuthFieldError> = {};
+      rejected.forEach((field) => {
+        fields[field] = fieldError('PROTECTED');
+      });
+      return authFailure(AuthErrorCode.PROTECTED_FIELD, { message: `Field cannot be updated: ${rejected[0]}`, fields });
+    }
+
+    const schema: Record<string, z.ZodTypeAny> = {};
+    Object.entries(this.validationConfig.fields || {}).forEach(([field, validator]) => {
+      if (field in data) {
+        schema[field] = validator;
+      }
+    });
+
+    // Like signups, keys missing from `validation.fields` are dropped rather than saved
+    const validated = z.object(schema).safeParse(data);
+    if (!validated.success) {
+      return this.validationFailure(validated.error);
+    }
+
+    if (!(await this.adapter.findUserById(userId))) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+
+    const user = await this.saveUser(userId, validated.data);
+    await this.emitUserUpdated(user, 'profile', Object.keys(validated.data), context);
+    return { success: true, user: this.sanitizeUser(user) };
+  }
+
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    context: AuthRequestContext = {}
+  ): Promise<AuthResult> {
+    const user = await this.adapter.findUserById(userId);
+    if (!user) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+
+    const denied = await this.reauthenticate(user, currentPassword, context);
+    if (denied) return denied;
+
+    const validated = this.buildPasswordSchema().safeParse(newPassword);
+    if (!validated.success) {
+      return this.validationFailure(validated.error, 'newPassword');
+    }
+
+    const updated = await this.saveUser(userId, { password: await this.passwordHasher.hash(validated.data) });
+    await this.adapter.deleteVerificationTokens?.(userId, 'password-reset');
+
+    // Sign out everywhere else; the caller gets a fresh pair below
+    await this.revokeAllTokens(userId);
+
+    if (this.config.callbacks?.onPasswordChange) {
+      await this.config.callbacks.onPasswordChange(this.sanitizeUser(updated));
+    }
+    await this.emitUserUpdated(updated, 'password_change', ['password'], context);
+
+    return this.issueTokens(updated, context);
+  }
+
+  async changeEmail(
+    userId: string,
+    newEmail: string,
+    currentPassword: string,
+    context: AuthRequestContext = {}
+  ): Promise<AuthResult> {
+    const user = await this.adapter.findUserById(userId);
+    if (!user) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+
+    const denied = await this.reauthenticate(user, currentPassword, context);
+    if (denied) return denied;
+
+    const emailSchema = this.validationConfig.email || z.string().email('Invalid email format');
+    const validated = emailSchema.safeParse(newEmail);
+    if (!validated.success) {
+      return this.validationFailure(validated.error, 'newEmail');
+    }
+
+    if (validated.data.toLowerCase() === user.email.toLowerCase()) {
+      return authFailure(AuthErrorCode.EMAIL_UNCHANGED, {
+        fields: { newEmail: { ...fieldError('UNCHANGED'), message: 'New email must be different' } },
+      });
+    }
+
+    const existing = await this.adapter.findUserByEmail(validated.data);
+    if (existing && existing.id !== userId) {
+      return this.fieldFailure(AuthErrorCode.USER_EXISTS, 'newEmail', 'ALREADY_REGISTERED');
+    }
+
+    const verificationRequired = !!this.config.emailVerification?.required;
+    let updated: User;
+    try {
+      updated = await this.saveUser(userId, {
+        email: validated.data,
+        ...(verificationRequired ? { emailVerified: false, emailVerifiedAt: undefined } : {}),
+      });
+    } catch (error) {
+      if (isDuplicateEmailError(error)) {
+        return this.fieldFailure(AuthErrorCode.USER_EXISTS, 'newEmail', 'ALREADY_REGISTERED');
+      }
+      throw error;
+    }
+
+    if (this.config.callbacks?.onEmailChange) {
+      await this.config.callbacks.onEmailChange(this.sanitizeUser(updated), user.email);
+    }
+    await this.emitUserUpdated(updated, 'email_change', ['email'], context);
+
+    if (verificationRequired) {
+      // Links sent to the previous address must not verify the new one
+      await this.adapter.deleteVerificationTokens!(userId, 'email-verification');
+      await this.sendVerificationEmail(updated, 'email-verification', this.getEmailVerificationExpiresIn());
+
+      if (this.rejectsUnverified()) {
+        return { success: true, user: this.sanitizeUser(updated), verificationRequired: true };
+      }
+      return { ...(await this.issueTokens(updated, context)), verificationRequired: true };
+    }
+
+    return this.issueTokens(updated, context);
+  }
+
+  async deleteUser(id: string, context: AuthRequestContext = {}): Promise<void> {
+    const user = await this.adapter.findUserById(id);
+    await this.adapter.deleteUser(id);
+    this.userCache.delete(id);
+
+    if (user) {
+      await this.events.emit('user.deleted', { userId: id, email: user.email }, context);
+    }
+  }
+
+  // `disabled` and `locked` sign the user out everywhere; `active` clears any lock or scheduled deletion
+  async setAccountStatus(
+    id: string,
+    status: AccountStatus,
+    options: AccountStatusOptions = {},
+    context: AuthRequestContext = {}
+  ): Promise<User> {
+    if (!ACCOUNT_STATUSES.includes(status)) {
+      throw new Error(`Unknown account status: ${status}`);
+    }
+    if (status === 'pending_deletion') {
+      return this.scheduleDeletion(id, context);
+    }
+
+    const user = await this.saveUser(id, {
+      status,
+      statusReason: options.reason,
+      lockedUntil: status === 'locked' ? options.lockedUntil : undefined,
+      deletionRequestedAt: undefined,
+      deleteAfter: undefined,
+    });
+    if (status !== 'active') {
+      await this.revokeAllTokens(id);
+    }
+    await this.emitUserUpdated(user, 'status_change', ['status'], context);
+    return this.sanitizeUser(user);
+  }
+
+  // Soft delete: the account stops working now and `purgeDeletedUsers` removes it after the grace period
+  async scheduleDeletion(id: string, context: AuthRequestContext = {}): Promise<User> {
+    const requestedAt = new Date();
+    const gracePeriod = parseDuration(this.config.accountDeletion?.gracePeriod ?? DEFAULT_DELETION_GRACE_PERIOD);
+    const user = await this.saveUser(id, {
+      status: 'pending_deletion',
+      statusReason: undefined,
+      lockedUntil: undefined,
+      deletionRequestedAt: requestedAt,
+      deleteAfter: new Date(requestedAt.getTime() + gracePeriod),
+    });
+    await this.revokeAllTokens(id);
+    await this.emitUserUpdated(user, 'deletion_scheduled', ['status'], context);
+    return this.sanitizeUser(user);
+  }
+
+  async cancelDeletion(id: string, context: AuthRequestContext = {}): Promise<User> {
+    const existing = await this.adapter.findUserById(id);
+    if (!existing) {
+      throw new UserNotFoundError(id);
+    }
+    if (existing.status !== 'pending_deletion') {
+      throw new Error('The account is not scheduled for deletion');
+    }
+
+    const user = await this.saveUser(id, { status: 'active', deletionRequestedAt: undefined, deleteAfter: undefined });
+    await this.emitUserUpdated(user, 'deletion_cancelled', ['status'], context);
+    return this.sanitizeUser(user);
+  }
+
+  // Hard-deletes every account whose grace period ended by `now`; run it from a scheduled job
+  async purgeDeletedUsers(now: Date = new Date(), context: AuthRequestContext = {}): Promise<string[]> {
+    if (typeof this.adapter.listUsers !== 'function') {
+      throw new Error('The adapter does not implement listUsers');
+    }
+
+    // Collect first: deleting while paging would shift the offsets
+    const due: string[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const users = await this.adapter.listUsers({ limit: PAGE_SIZE, offset });
+      for (const user of users) {
+        const deleteAfter = toTime(user.deleteAfter);
+        if (user.status === 'pending_deletion' && deleteAfter !== undefined && deleteAfter <= now.getTime()) {
+          due.push(user.id);
+        }
+      }
+      if (users.length < PAGE_SIZE) break;
+    }
+
+    for (const id of due) {
+      await this.deleteUser(id, context);
+    }
+    return due;
+  }
+
+  // For data access requests; null when the user doesn't exist
+  async exportUserData(userId: string): Promise<UserDataExport | null> {
+    const user = await this.adapter.findUserById(userId);
+    if (!user) return null;
+
+    const activity: AuditLogEntry[] = [];
+    if (this.config.auditLog) {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const entries = await this.config.auditLog.query({ userId, limit: PAGE_SIZE, offset });
+        activity.push(...entries);
+        if (entries.length < PAGE_SIZE) break;
+      }
+    }
+
+    return {
+      exportedAt: new Date(),
+      user: this.sanitizeUser(user),
+      linkedAccounts: await this.listLinkedAccounts(userId),
+      apiKeys: await this.listApiKeys(userId),
+      // Revoked and expired sessions too: they are still stored
+      sessions: this.supportsLoginSessions() ? await this.adapter.listLoginSessions!(userId) : [],
+      activity,
+    };
+  }
+
+  // Self-service deletion; the account can still be restored with cancelDeletion during the grace period
+  async requestAccountDeletion(
+    userId: string,
+    currentPassword: string,
+    context: AuthRequestContext = {}
+  ): Promise<AuthResult> {
+    const user = await this.adapter.findUserById(userId);
+    if (!user) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+
+    // Passwordless accounts have no password to confirm; the signed-in session has to do
+    if (user.password) {
+      const denied = await this.reauthenticate(user, currentPassword, context);
+      if (denied) return denied;
+    }
+
+    return { success: true, user: await this.scheduleDeletion(userId, context) };
+  }
+
+  // Effective status: a lock whose `lockedUntil` has passed counts as active
+  getAccountStatus(user: User): AccountStatus {
+    const status: AccountStatus = ACCOUNT_STATUSES.includes(user.status) ? user.status : 'active';
+    if (status === 'locked') {
+      const lockedUntil = toTime(user.lockedUntil);
+      if (lockedUntil !== undefined && lockedUntil <= Date.now()) return 'active';
+    }
+    return status;
+  }
+
+  isAuditLogEnabled(): boolean {
+    return !!this.config.auditLog;
+  }
+
+  async getAuditLog(query: AuditLogQuery = {}): Promise<AuditLogEntry[]> {
+    return this.config.auditLog ? this.config.auditLog.query(query) : [];
+  }
+
+  // What a user sees as their own recent security activity
+  async getSecurityActivity(userId: string, limit = 20): Promise<AuditLogEntry[]> {
+    return this.getAuditLog({ userId, limit });
+  }
+
+  hasRole(user: User, roles: string[]): boolean {
+    const userRoles = getUserRoles(user, this.config.rbac?.roleField);
+    return roles.some((role) => userRoles.includes(role));
+  }
+
+  can(user: User, permission: string): boolean {
+    if (!this.config.rbac) return false;
+
+    const roles = getUserRoles(user, this.config.rbac.roleField);
+    return resolvePermissions(roles, this.config.rbac.roles)
+      .some((granted) => matchesPermission(granted, permission));
+  }
+
+  // Scopes use the same `*` wildcards as permissions: a `posts:*` key may `posts:write`
+  hasScope(apiKey: ApiKey, scope: string): boolean {
+    return apiKey.scopes.some((granted) => matchesPermission(granted, scope));
+  }
+
+  async logout(user: User, token?: string, context: AuthRequestContext = {}): Promise<void> {
+    await this.revokeToken(user);
+    if (this.config.loginSessions && typeof user.sessionId === 'string') {
+      await this.adapter.updateLoginSession!(user.sessionId, { revokedAt: new Date() });
+      if (this.config.refreshToken) {
+        await this.adapter.revokeRefreshTokenFamily!(user.sessionId);
+      }
+    }
+    if (token && this.strategy.revoke) {
+      await this.strategy.revoke(token);
+    }
+
+    if (this.config.callbacks?.onLogout) {
+      await this.config.callbacks.onLogout(user);
+    }
+    await this.events.emit('logout', { user: this.sanitizeUser(user) }, context);
+  }
+
+  private supportsRefreshTokens(): boolean {
+    return typeof this.adapter.createRefreshToken === 'function' &&
+      typeof this.adapter.findRefreshToken === 'function' &&
+      typeof this.adapter.markRefreshTokenUsed === 'function' &&
+      typeof this.adapter.revokeRefreshTokenFamily === 'function';
+  }
+
+  private rejectsUnverified(): boolean {
+    const config = this.config.emailVerification;
+    return !!config?.required && (config.unverified ?? 'reject') === 'reject';
+  }
+
+  private getEmailVerificationExpiresIn(): string | number {
+    return this.config.emailVerification?.expiresIn ?? DEFAULT_EMAIL_VERIFICATION_EXPIRES_IN;
+  }
+
+  private supportsLinkedAccounts(): boolean {
+    return typeof this.adapter.linkAccount === 'function' &&
+      typeof this.adapter.findLinkedAccount === 'function' &&
+      typeof this.adapter.listLinkedAccounts === 'function' &&
+      typeof this.adapter.unlinkAccount === 'function';
+  }
+
+  private supportsApiKeys(): boolean {
+    return typeof this.adapter.createApiKey === 'function' &&
+      typeof this.adapter.findApiKeyByPrefix === 'function' &&
+      typeof this.adapter.listApiKeys === 'function' &&
+      typeof this.adapter.updateApiKey === 'function';
+  }
+
+  private supportsLoginSessions(): boolean {
+    return typeof this.adapter.createLoginSession === 'function' &&
+      typeof this.adapter.findLoginSession === 'function' &&
+      typeof this.adapter.listLoginSessions === 'function' &&
+      typeof this.adapter.updateLoginSession === 'function';
+  }
+
+  private async checkLoginSession(
+    sessionId: string,
+    userId: string,
+    context: AuthRequestContext
+  ): Promise<AuthResult | null> {
+    const session = await this.adapter.findLoginSession!(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      return this.rejectToken(AuthErrorCode.TOKEN_REVOKED, context, userId);
+    }
+
+    const now = Date.now();
+    if (session.expiresAt.getTime() <= now) {
+      return this.rejectToken(AuthErrorCode.TOKEN_EXPIRED, context, userId);
+    }
+    if (now - session.lastSeenAt.getTime() >= TOUCH_INTERVAL) {
+      await this.adapter.updateLoginSession!(session.id, { lastSeenAt: new Date(now) });
+    }
+    return null;
+  }
+
+  private async recordLoginSession(
+    userId: string,
+    sessionId: string,
+    context: AuthRequestContext,
+    expiresAt: Date,
+    refreshed: boolean
+  ): Promise<void> {
+    const adapter = this.adapter as Required<DatabaseAdapter>;
+    // refresh() has already checked the session exists and is still live
+    if (refreshed) {
+      await adapter.updateLoginSession(sessionId, { lastSeenAt: new Date(), expiresAt });
+      return;
+    }
+
+    await adapter.createLoginSession({
+      id: sessionId,
+      userId,
+      ip: context.ip,
+      userAgent: context.userAgent,
+      device: parseUserAgent(context.userAgent),
+      expiresAt,
+    });
+  }
+
+  private getApiKeyPrefix(): string {
+    return this.config.apiKeys?.prefix || DEFAULT_API_KEY_PREFIX;
+  }
+
+  private safeEqual(stored: string, candidate: string): boolean {
+    const a = Buffer.from(stored);
+    const b = Buffer.from(candidate);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private supportsVerificationTokens(): boolean {
+    return typeof this.adapter.createVerificationToken === 'function' &&
+      typeof this.adapter.findVerificationToken === 'function' &&
+      typeof this.adapter.markVerificationTokenUsed === 'function' &&
+      typeof this.adapter.deleteVerificationTokens === 'function';
+  }
+
+  private async createVerificationToken(
+    userId: string,
+    type: VerificationTokenType,
+    expiresIn: string | number,
+    data?: Record<string, any>
+  ): Promise<{ token: string; expiresAt: Date }> {
+    const adapter = this.adapter as Required<DatabaseAdapter>;
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + parseDuration(expiresIn));
+
+    // Only the most recent token of each kind stays valid
+    await adapter.deleteVerificationTokens(userId, type);
+    await adapter.createVerificationToken({
+      type,
+      userId,
+      tokenHash: hashToken(token),
+      expiresAt,
+      ...(data ? { data } : {}),
+    });
+
+    return { token, expiresAt };
+  }
+
+  private async twoFactorChallenge(user: User): Promise<AuthResult> {
+    const expiresIn = this.config.twoFactor?.challengeExpiresIn ?? DEFAULT_TWO_FACTOR_CHALLENGE_EXPIRES_IN;
+    const { token: challenge } = await this.createVerificationToken(user.id, 'two-factor-challenge', expiresIn);
+    return {
+      ...authFailure(AuthErrorCode.TWO_FACTOR_REQUIRED),
+      twoFactorRequired: true,
+      challenge,
+    };
+  }
+
+  // Caps guesses per challenge even without a throttle; 6 digits fall quickly to unlimited tries
+  private async recordChallengeFailure(record: VerificationTokenRecord): Promise<void> {
+    const maxAttempts = this.config.twoFactor?.maxAttempts ?? DEFAULT_TWO_FACTOR_MAX_ATTEMPTS;
+    const attempts = this.adapter.incrementVerificationTokenAttempts
+      ? await this.adapter.incrementVerificationTokenAttempts(record.id)
+      : maxAttempts;
+    if (attempts >= maxAttempts) {
+      await this.adapter.markVerificationTokenUsed!(record.id);
+    }
+  }
+
+  // Accounts created from a magic link or OAuth have no password; they can set one through password reset
+  private async registerPasswordless(
+    email: string,
+    context: AuthRequestContext,
+    emailVerified = true
+  ): Promise<User | null> {
+    const verificationRequired = !emailVerified && !!this.config.emailVerification?.required;
+    let user: User;
+    try {
+      user = await this.adapter.createUser({
+        email,
+        ...(emailVerified ? { emailVerified: true, emailVerifiedAt: new Date() } : {}),
+        ...(verificationRequired ? { emailVerified: false } : {}),
+      });
+    } catch (error) {
+      // Registered some other way in the meantime; only a proven address may take that account over
+      if (isDuplicateEmailError(error)) {
+        return emailVerified ? this.adapter.findUserByEmail(email) : null;
+      }
+      throw error;
+    }
+
+    if (this.config.callbacks?.onRegister) {
+      await this.config.callbacks.onRegister(user);
+    }
+    await this.events.emit('register', { user: this.sanitizeUser(user) }, context);
+
+    if (verificationRequired) {
+      await this.sendVerificationEmail(user, 'email-verification', this.getEmailVerificationExpiresIn());
+    }
+    return user;
+  }
+
+  private async signInWithOAuth(
+    provider: string,
+    profile: OAuthProfile,
+    context: AuthRequestContext
+  ): Promise<OAuthCallbackResult> {
+    const adapter = this.adapter as Required<DatabaseAdapter>;
+    let account = await adapter.findLinkedAccount(provider, profile.id);
+    let user = account ? await adapter.findUserById(account.userId) : null;
+
+    if (account && !user) {
+      // Left behind by an adapter that doesn't clean up on deleteUser
+      await adapter.unlinkAccount(provider, profile.id);
+      account = null;
+    }
+
+    if (!user) {
+      if (!profile.email) {
+        await this.events.emit('login.failed', { reason: 'oauth_failed' }, context);
+        return authFailure(AuthErrorCode.OAUTH_EMAIL_MISSING);
+      }
+
+      const existing = await adapter.findUserByEmail(profile.email);
+      if (existing && !profile.emailVerified) {
+        // Matching on an address the provider hasn't verified would let anyone claim the account
+        await this.events.emit('login.failed', {
+          email: existing.email,
+          userId: existing.id,
+          reason: 'oauth_failed',
+        }, context);
+        return authFailure(AuthErrorCode.OAUTH_EMAIL_IN_USE);
+      }
+      if (!existing && this.config.oauth!.autoRegister === false) {
+        await this.events.emit('login.failed', { email: profile.email, reason: 'unknown_user' }, context);
+        return authFailure(AuthErrorCode.USER_NOT_FOUND, { message: 'No account is linked to this identity' });
+      }
+
+      user = existing || await this.registerPasswordless(profile.email, context, !!profile.emailVerified);
+      if (!user) {
+        return authFailure(AuthErrorCode.OAUTH_EMAIL_IN_USE);
+      }
+      account = await this.createLinkedAccount(user, provider, profile, context);
+
+      // The provider vouched for the address
+      if (existing && existing.emailVerified === false) {
+        user = await this.saveUser(user.id, { emailVerified: true, emailVerifiedAt: new Date() });
+        await this.emitUserUpdated(user, 'email_verified', ['emailVerified'], context);
+      }
+    }
+
+    const inactive = await this.rejectInactiveAccount(user, context);
+    if (inactive) return inactive;
+
+    if (this.requiresVerifiedEmail(user)) {
+      await this.events.emit('login.failed', {
+        email: user.email,
+        userId: user.id,
+        reason: 'email_not_verified',
+      }, context);
+      return { ...authFailure(AuthErrorCode.EMAIL_NOT_VERIFIED), verificationRequired: true };
+    }
+
+    if (this.config.twoFactor && user.twoFactorEnabled) {
+      return this.twoFactorChallenge(user);
+    }
+
+    if (this.config.callbacks?.onLogin) {
+      await this.config.callbacks.onLogin(user);
+    }
+    await this.events.emit('login', { user: this.sanitizeUser(user), method: 'oauth' }, context);
+
+    return { ...(await this.issueTokens(user, context)), account: account ?? undefined };
+  }
+
+  private async linkOAuthProfile(
+    userId: string,
+    provider: string,
+    profile: OAuthProfile,
+    context: AuthRequestContext
+  ): Promise<OAuthCallbackResult> {
+    const user = await this.adapter.findUserById(userId);
+    if (!user) {
+      return authFailure(AuthErrorCode.USER_NOT_FOUND);
+    }
+
+    const existing = await this.adapter.findLinkedAccount!(provider, profile.id);
+    if (existing && existing.userId !== user.id) {
+      return authFailure(AuthErrorCode.OAUTH_ACCOUNT_LINKED);
+    }
+
+    const account = existing || await this.createLinkedAccount(user, provider, profile, context);
+    return { success: true, user: this.sanitizeUser(user), account };
+  }
+
+  private async createLinkedAccount(
+    user: User,
+    provider: string,
+    profile: OAuthProfile,
+    context: AuthRequestContext
+  ): Promise<LinkedAccount> {
+    const account = await this.adapter.linkAccount!({
+      userId: user.id,
+      provider,
+      providerAccountId: profile.id,
+      ...(profile.email ? { email: profile.email } : {}),
+    });
+    await this.events.emit('account.linked', {
+      user: this.sanitizeUser(user),
+      provider,
+      providerAccountId: profile.id,
+    }, context);
+    return account;
+  }
+
+  private async sendVerificationEmail(
+    user: User,
+    type: VerificationTokenType,
+    expiresIn: string | number
+  ): Promise<void> {
+    const { token, expiresAt } = await this.createVerificationToken(user.id, type, expiresIn);
+
+    await this.config.callbacks!.sendEmail!({
+      type,
+      to: user.email,
+      token,
+      expiresAt,
+      user: this.sanitizeUser(user),
+    });
+  }
+
+  private async findVerificationToken(
+    token: string,
+    type: VerificationTokenType
+  ): Promise<VerificationTokenRecord | null> {
+    if (typeof token !== 'string' || !token || !this.supportsVerificationTokens()) {
+      return null;
+    }
+
+    const record = await this.adapter.findVerificationToken!(hashToken(token));
+    if (!record || record.type !== type || record.usedAt || record.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return record;
+  }
+
+  private async emitUserUpdated(
+    user: User,
+    action: UserUpdateAction,
+    fields: string[],
+    context: AuthRequestContext
+  ): Promise<void> {
+    // Field names only; the values may be secrets
+    await this.events.emit('user.updated', { user: this.sanitizeUser(user), action, fields }, context);
+  }
+
+  private getAccountStatusError(user: User): AuthErrorCode | null {
+    const status = this.getAccountStatus(user);
+    return status === 'active' ? null : ACCOUNT_STATUS_ERRORS[status];
+  }
+
+  private async rejectInactiveAccount(user: User, context: AuthRequestContext): Promise<AuthResult | null> {
+    const status = this.getAccountStatus(user);
+    if (status === 'active') return null;
+
+    await this.events.emit('login.failed', { email: user.email, userId: user.id, reason: `account_${status}` }, context);
+    return authFailure(ACCOUNT_STATUS_ERRORS[status]);
+  }
+
+  private async rejectToken(code: AuthErrorCode, context: AuthRequestContext, userId?: string): Promise<AuthResult> {
+    await this.events.emit('token.rejected', { reason: code, userId }, context);
+    return authFailure(code);
+  }
+
+  private toAuditEntry(event: AuthEvent): Omit<AuditLogEntry, 'id'> {
+    const entry: Omit<AuditLogEntry, 'id'> = {
+      type: event.type,
+      ip: event.context.ip,
+      userAgent: event.context.userAgent,
+      createdAt: event.timestamp,
+    };
+
+    switch (event.type) {
+      case 'register':
+      case 'logout':
+        return { ...entry, userId: event.user.id, email: event.user.email };
+      case 'login':
+        return { ...entry, userId: event.user.id, email: event.user.email, metadata: { method: event.method } };
+      case 'login.failed':
+        return { ...entry, userId: event.userId, email: event.email, reason: event.reason };
+      case 'lockout': {
+        const { type, identifier, until } = event.lockout;
+        const subject = type === 'email' ? { email: identifier } : { ip: identifier };
+        return { ...entry, ...subject, reason: type, metadata: { until } };
+      }
+      case 'token.rejected':
+        return { ...entry, userId: event.userId, reason: event.reason };
+      case 'user.updated':
+        return {
+          ...entry,
+          userId: event.user.id,
+          email: event.user.email,
+          metadata: { action: event.action, fields: event.fields },
+        };
+      case 'user.deleted':
+        return { ...entry, userId: event.userId, email: event.email };
+      case 'account.linked':
+      case 'account.unlinked':
+        return {
+          ...entry,
+          userId: event.user.id,
+          email: event.user.email,
+          metadata: { provider: event.provider, providerAccountId: event.providerAccountId },
+        };
+      case 'api_key.created':
+      case 'api_key.revoked':
+        return {
+          ...entry,
+          userId: event.user.id,
+          email: event.user.email,
+          metadata: { apiKeyId: event.apiKey.id, name: event.apiKey.name, scopes: event.apiKey.scopes },
+        };
+      case 'session.revoked':
+        return {
+          ...entry,
+          userId: event.userId,
+          metadata: { sessionId: event.session.id, device: event.session.device, sessionIp: event.session.ip },
+        };
+    }
+  }
+
+  private async saveUser(id: string, data: Partial<User>): Promise<User> {
+    const user = await this.adapter.updateUser(id, data);
+    this.userCache.delete(id);
+    return user;
+  }
+
+  // Sensitive account changes ask for the password again, throttled like a login
+  private async reauthenticate(
+    user: User,
+    password: string,
+    context: AuthRequestContext
+  ): Promise<AuthResult | null> {
+    if (this.throttle) {
+      const retryAfter = await this.throttle.reserve(user.email, context.ip);
+      if (retryAfter > 0) {
+        return this.throttled(retryAfter);
+      }
+    }
+
+    const isValid = typeof password === 'string' && !!user.password &&
+      await this.passwordHasher.verify(password, user.password);
+    if (!isValid) {
+      await this.throttle?.recordFailure(user.email, context.ip);
+      return authFailure(AuthErrorCode.INCORRECT_PASSWORD, {
+        fields: { currentPassword: { ...fieldError('INCORRECT'), message: 'Current password is incorrect' } },
+      });
+    }
+
+    await this.throttle?.recordSuccess(user.email, context.ip);
+    return null;
+  }
+
+  private throttled(retryAfter: number): AuthResult {
+    return { ...authFailure(AuthErrorCode.TOO_MANY_ATTEMPTS), retryAfter };
+  }
+
+  // Upgrades the stored hash while the plain password is at hand; a failure here never blocks the login
+  private async rehashIfNeeded(user: User, password: string): Promise<void> {
+    if (!user.password || !this.passwordHasher.needsRehash?.(user.password)) return;
+
+    try {
+      await this.saveUser(user.id, { password: await this.passwordHasher.hash(password) });
+    } catch (error) {
+      // Keep the old hash; the next login tries again
+    }
+  }
+
+  private getDummyHash(): Promise<string> {
+    if (!this.dummyHash) {
+      this.dummyHash = this.passwordHasher.hash(generateOpaqueToken());
+    }
+    return this.dummyHash;
+  }
+
+  private now(): number {
+    return this.config.twoFactor?.clock ? this.config.twoFactor.clock() : Date.now();
+  }
+
+  private normalizeCode(code: string): string {
+    return typeof code === 'string' ? code.replace(/[\s-]/g, '').toLowerCase() : '';
+  }
+
+  private async verifySecondFactor(user: User, code: string): Promise<boolean> {
+    const normalized = this.normalizeCode(code);
+
+    const step = verifyTotp(user.twoFactorSecret, normalized, {
+      timestamp: this.now(),
+      window: this.config.twoFactor?.window,
+    });
+    if (step !== null) {
+      // A code that already got someone in must not work a second time
+      if (typeof user.twoFactorLastStep === 'number' && step <= user.twoFactorLastStep) {
+        return false;
+      }
+      await this.saveUser(user.id, { twoFactorLastStep: step });
+      return true;
+    }
+
+    const recoveryCodes: string[] = user.twoFactorRecoveryCodes || [];
+    const hash = hashToken(normalized);
+    if (normalized && recoveryCodes.includes(hash)) {
+      await this.saveUser(user.id, {
+        twoFactorRecoveryCodes: recoveryCodes.filter((existing) => existing !== hash),
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  // A refresh (`familyId` set) continues its sign-in; everything else starts a new one.
+  // The login session shares its id with the refresh token family.
+  private async issueTokens(user: User, context: AuthRequestContext, familyId?: string): Promise<AuthResult> {
+    const sessionId = familyId || crypto.randomUUID();
+    const claims = this.config.loginSessions ? { ...this.sanitizeUser(user), sessionId } : this.sanitizeUser(user);
+    const token = await this.strategy.generateToken(claims);
+    const result: AuthResult = {
+      success: true,
+      user: this.sanitizeUser(user),
+      token,
+    };
+
+    let expiresAt = new Date(Date.now() + parseDuration(
+      this.config.loginSessions?.expiresIn ?? DEFAULT_LOGIN_SESSION_EXPIRES_IN
+    ));
+
+    if (this.config.refreshToken) {
+      const refreshToken = generateOpaqueToken();
+      const expiresIn = this.config.refreshToken.expiresIn ?? DEFAULT_REFRESH_TOKEN_EXPIRES_IN;
+      expiresAt = new Date(Date.now() + parseDuration(expiresIn));
+
+      await (this.adapter as Required<DatabaseAdapter>).createRefreshToken({
+        userId: user.id,
+        familyId: sessionId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt,
+      });
+
+      result.refreshToken = refreshToken;
+    }
+
+    if (this.config.loginSessions) {
+      await this.recordLoginSession(user.id, sessionId, context, expiresAt, !!familyId);
+    }
+
+    return result;
+  }
+
+  private sanitizeUser(user: User): User {
+    const sanitized = { ...user };
+    for (const field of SENSITIVE_USER_FIELDS) {
+      delete sanitized[field];
+    }
+    return sanitized;
   }
 }
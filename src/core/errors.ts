@@ -0,0 +1,233 @@
+import type { AuthFieldError, AuthResult } from '../types';
+
+// Stable identifiers for every failure; clients should branch on these, never on `error` text
+export enum AuthErrorCode {
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  USER_EXISTS = 'USER_EXISTS',
+  USER_NOT_FOUND = 'USER_NOT_FOUND',
+  INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+  INCORRECT_PASSWORD = 'INCORRECT_PASSWORD',
+  TOO_MANY_ATTEMPTS = 'TOO_MANY_ATTEMPTS',
+  EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+  EMAIL_UNCHANGED = 'EMAIL_UNCHANGED',
+  PROTECTED_FIELD = 'PROTECTED_FIELD',
+  AUTHENTICATION_REQUIRED = 'AUTHENTICATION_REQUIRED',
+  TOKEN_INVALID = 'TOKEN_INVALID',
+  TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+  TOKEN_REVOKED = 'TOKEN_REVOKED',
+  INSUFFICIENT_PERMISSIONS = 'INSUFFICIENT_PERMISSIONS',
+  CSRF_INVALID = 'CSRF_INVALID',
+  REFRESH_TOKEN_INVALID = 'REFRESH_TOKEN_INVALID',
+  REFRESH_TOKEN_EXPIRED = 'REFRESH_TOKEN_EXPIRED',
+  REFRESH_TOKEN_REUSED = 'REFRESH_TOKEN_REUSED',
+  RESET_TOKEN_INVALID = 'RESET_TOKEN_INVALID',
+  VERIFICATION_TOKEN_INVALID = 'VERIFICATION_TOKEN_INVALID',
+  TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED',
+  TWO_FACTOR_CHALLENGE_INVALID = 'TWO_FACTOR_CHALLENGE_INVALID',
+  TWO_FACTOR_CODE_INVALID = 'TWO_FACTOR_CODE_INVALID',
+  TWO_FACTOR_NOT_ENABLED = 'TWO_FACTOR_NOT_ENABLED',
+  TWO_FACTOR_ALREADY_ENABLED = 'TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_NOT_PENDING = 'TWO_FACTOR_NOT_PENDING',
+  MAGIC_LINK_INVALID = 'MAGIC_LINK_INVALID',
+  OAUTH_PROVIDER_UNKNOWN = 'OAUTH_PROVIDER_UNKNOWN',
+  OAUTH_STATE_INVALID = 'OAUTH_STATE_INVALID',
+  OAUTH_ACCESS_DENIED = 'OAUTH_ACCESS_DENIED',
+  OAUTH_FAILED = 'OAUTH_FAILED',
+  OAUTH_ID_TOKEN_INVALID = 'OAUTH_ID_TOKEN_INVALID',
+  OAUTH_EMAIL_MISSING = 'OAUTH_EMAIL_MISSING',
+  OAUTH_EMAIL_IN_USE = 'OAUTH_EMAIL_IN_USE',
+  OAUTH_ACCOUNT_LINKED = 'OAUTH_ACCOUNT_LINKED',
+  OAUTH_LAST_LOGIN_METHOD = 'OAUTH_LAST_LOGIN_METHOD',
+  API_KEY_INVALID = 'API_KEY_INVALID',
+  API_KEY_EXPIRED = 'API_KEY_EXPIRED',
+  API_KEY_REVOKED = 'API_KEY_REVOKED',
+  API_KEY_NOT_ALLOWED = 'API_KEY_NOT_ALLOWED',
+  INSUFFICIENT_SCOPE = 'INSUFFICIENT_SCOPE',
+  ACCOUNT_DISABLED = 'ACCOUNT_DISABLED',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  ACCOUNT_PENDING_DELETION = 'ACCOUNT_PENDING_DELETION',
+  FEATURE_DISABLED = 'FEATURE_DISABLED',
+  NOT_SUPPORTED = 'NOT_SUPPORTED',
+  NOT_FOUND = 'NOT_FOUND',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+// Per-field codes inside `fieldErrors`
+export type AuthFieldErrorCode =
+  | 'REQUIRED'
+  | 'INVALID'
+  | 'INVALID_EMAIL'
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'ALREADY_REGISTERED'
+  | 'INCORRECT'
+  | 'PROTECTED'
+  | 'UNCHANGED';
+
+const ERROR_STATUS: Record<AuthErrorCode, number> = {
+  [AuthErrorCode.VALIDATION_FAILED]: 400,
+  [AuthErrorCode.INVALID_REQUEST]: 400,
+  [AuthErrorCode.PAYLOAD_TOO_LARGE]: 413,
+  [AuthErrorCode.USER_EXISTS]: 409,
+  [AuthErrorCode.USER_NOT_FOUND]: 404,
+  [AuthErrorCode.INVALID_CREDENTIALS]: 401,
+  [AuthErrorCode.INCORRECT_PASSWORD]: 403,
+  [AuthErrorCode.TOO_MANY_ATTEMPTS]: 429,
+  [AuthErrorCode.EMAIL_NOT_VERIFIED]: 403,
+  [AuthErrorCode.EMAIL_UNCHANGED]: 400,
+  [AuthErrorCode.PROTECTED_FIELD]: 400,
+  [AuthErrorCode.AUTHENTICATION_REQUIRED]: 401,
+  [AuthErrorCode.TOKEN_INVALID]: 401,
+  [AuthErrorCode.TOKEN_EXPIRED]: 401,
+  [AuthErrorCode.TOKEN_REVOKED]: 401,
+  [AuthErrorCode.INSUFFICIENT_PERMISSIONS]: 403,
+  [AuthErrorCode.CSRF_INVALID]: 403,
+  [AuthErrorCode.REFRESH_TOKEN_INVALID]: 401,
+  [AuthErrorCode.REFRESH_TOKEN_EXPIRED]: 401,
+  [AuthErrorCode.REFRESH_TOKEN_REUSED]: 401,
+  [AuthErrorCode.RESET_TOKEN_INVALID]: 400,
+  [AuthErrorCode.VERIFICATION_TOKEN_INVALID]: 400,
+  [AuthErrorCode.TWO_FACTOR_REQUIRED]: 401,
+  [AuthErrorCode.TWO_FACTOR_CHALLENGE_INVALID]: 401,
+  [AuthErrorCode.TWO_FACTOR_CODE_INVALID]: 400,
+  [AuthErrorCode.TWO_FACTOR_NOT_ENABLED]: 400,
+  [AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED]: 409,
+  [AuthErrorCode.TWO_FACTOR_NOT_PENDING]: 400,
+  [AuthErrorCode.MAGIC_LINK_INVALID]: 401,
+  [AuthErrorCode.OAUTH_PROVIDER_UNKNOWN]: 404,
+  [AuthErrorCode.OAUTH_STATE_INVALID]: 400,
+  [AuthErrorCode.OAUTH_ACCESS_DENIED]: 403,
+  [AuthErrorCode.OAUTH_FAILED]: 502,
+  [AuthErrorCode.OAUTH_ID_TOKEN_INVALID]: 401,
+  [AuthErrorCode.OAUTH_EMAIL_MISSING]: 400,
+  [AuthErrorCode.OAUTH_EMAIL_IN_USE]: 409,
+  [AuthErrorCode.OAUTH_ACCOUNT_LINKED]: 409,
+  [AuthErrorCode.OAUTH_LAST_LOGIN_METHOD]: 400,
+  [AuthErrorCode.API_KEY_INVALID]: 401,
+  [AuthErrorCode.API_KEY_EXPIRED]: 401,
+  [AuthErrorCode.API_KEY_REVOKED]: 401,
+  [AuthErrorCode.API_KEY_NOT_ALLOWED]: 403,
+  [AuthErrorCode.INSUFFICIENT_SCOPE]: 403,
+  [AuthErrorCode.ACCOUNT_DISABLED]: 403,
+  [AuthErrorCode.ACCOUNT_LOCKED]: 403,
+  [AuthErrorCode.ACCOUNT_PENDING_DELETION]: 403,
+  [AuthErrorCode.FEATURE_DISABLED]: 404,
+  [AuthErrorCode.NOT_SUPPORTED]: 400,
+  [AuthErrorCode.NOT_FOUND]: 404,
+  [AuthErrorCode.INTERNAL_ERROR]: 500,
+};
+
+export const DEFAULT_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  [AuthErrorCode.VALIDATION_FAILED]: 'Validation failed',
+  [AuthErrorCode.INVALID_REQUEST]: 'Invalid request',
+  [AuthErrorCode.PAYLOAD_TOO_LARGE]: 'Request body too large',
+  [AuthErrorCode.USER_EXISTS]: 'User already exists',
+  [AuthErrorCode.USER_NOT_FOUND]: 'User not found',
+  [AuthErrorCode.INVALID_CREDENTIALS]: 'Invalid credentials',
+  [AuthErrorCode.INCORRECT_PASSWORD]: 'Current password is incorrect',
+  [AuthErrorCode.TOO_MANY_ATTEMPTS]: 'Too many attempts, try again later',
+  [AuthErrorCode.EMAIL_NOT_VERIFIED]: 'Email not verified',
+  [AuthErrorCode.EMAIL_UNCHANGED]: 'New email must be different',
+  [AuthErrorCode.PROTECTED_FIELD]: 'Field cannot be updated',
+  [AuthErrorCode.AUTHENTICATION_REQUIRED]: 'Authentication required',
+  [AuthErrorCode.TOKEN_INVALID]: 'Invalid token',
+  [AuthErrorCode.TOKEN_EXPIRED]: 'Token expired',
+  [AuthErrorCode.TOKEN_REVOKED]: 'Token revoked',
+  [AuthErrorCode.INSUFFICIENT_PERMISSIONS]: 'Insufficient permissions',
+  [AuthErrorCode.CSRF_INVALID]: 'Invalid CSRF token',
+  [AuthErrorCode.REFRESH_TOKEN_INVALID]: 'Invalid refresh token',
+  [AuthErrorCode.REFRESH_TOKEN_EXPIRED]: 'Refresh token expired',
+  [AuthErrorCode.REFRESH_TOKEN_REUSED]: 'Refresh token reuse detected',
+  [AuthErrorCode.RESET_TOKEN_INVALID]: 'Invalid or expired reset token',
+  [AuthErrorCode.VERIFICATION_TOKEN_INVALID]: 'Invalid or expired verification token',
+  [AuthErrorCode.TWO_FACTOR_REQUIRED]: 'Two-factor authentication required',
+  [AuthErrorCode.TWO_FACTOR_CHALLENGE_INVALID]: 'Invalid or expired challenge',
+  [AuthErrorCode.TWO_FACTOR_CODE_INVALID]: 'Invalid two-factor code',
+  [AuthErrorCode.TWO_FACTOR_NOT_ENABLED]: 'Two-factor authentication is not enabled',
+  [AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED]: 'Two-factor authentication is already enabled',
+  [AuthErrorCode.TWO_FACTOR_NOT_PENDING]: 'No pending two-factor enrollment',
+  [AuthErrorCode.MAGIC_LINK_INVALID]: 'Invalid or expired login link',
+  [AuthErrorCode.OAUTH_PROVIDER_UNKNOWN]: 'Unknown sign-in provider',
+  [AuthErrorCode.OAUTH_STATE_INVALID]: 'Invalid or expired sign-in attempt',
+  [AuthErrorCode.OAUTH_ACCESS_DENIED]: 'Sign-in was cancelled at the provider',
+  [AuthErrorCode.OAUTH_FAILED]: 'Could not complete sign-in with the provider',
+  [AuthErrorCode.OAUTH_ID_TOKEN_INVALID]: 'The provider returned an invalid identity token',
+  [AuthErrorCode.OAUTH_EMAIL_MISSING]: 'The provider did not share an email address',
+  [AuthErrorCode.OAUTH_EMAIL_IN_USE]: 'An account with this email already exists; sign in to link this provider',
+  [AuthErrorCode.OAUTH_ACCOUNT_LINKED]: 'This account is already linked to another user',
+  [AuthErrorCode.OAUTH_LAST_LOGIN_METHOD]: 'Cannot remove the only way to sign in',
+  [AuthErrorCode.API_KEY_INVALID]: 'Invalid API key',
+  [AuthErrorCode.API_KEY_EXPIRED]: 'API key expired',
+  [AuthErrorCode.API_KEY_REVOKED]: 'API key revoked',
+  [AuthErrorCode.API_KEY_NOT_ALLOWED]: 'This action needs a signed-in user, not an API key',
+  [AuthErrorCode.INSUFFICIENT_SCOPE]: 'The API key lacks a required scope',
+  [AuthErrorCode.ACCOUNT_DISABLED]: 'This account has been disabled',
+  [AuthErrorCode.ACCOUNT_LOCKED]: 'This account is locked',
+  [AuthErrorCode.ACCOUNT_PENDING_DELETION]: 'This account is scheduled for deletion',
+  [AuthErrorCode.FEATURE_DISABLED]: 'This feature is not enabled',
+  [AuthErrorCode.NOT_SUPPORTED]: 'Not supported',
+  [AuthErrorCode.NOT_FOUND]: 'Not found',
+  [AuthErrorCode.INTERNAL_ERROR]: 'Something went wrong',
+};
+
+export const DEFAULT_FIELD_MESSAGES: Record<AuthFieldErrorCode, string> = {
+  REQUIRED: '{field} is required',
+  INVALID: '{field} is invalid',
+  INVALID_EMAIL: 'Invalid email format',
+  TOO_SHORT: '{field} must be at least {minimum} characters',
+  TOO_LONG: '{field} must be at most {maximum} characters',
+  ALREADY_REGISTERED: 'This email is already registered',
+  INCORRECT: '{field} is incorrect',
+  PROTECTED: 'This field cannot be updated',
+  UNCHANGED: '{field} must be different',
+};
+
+export function getErrorStatus(code: AuthErrorCode | undefined): number {
+  return code ? ERROR_STATUS[code] ?? 400 : 400;
+}
+
+export function interpolate(template: string, params: Record<string, string | number | undefined> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    return value === undefined ? match : String(value);
+  });
+}
+
+export function fieldError(
+  code: AuthFieldErrorCode,
+  params?: Record<string, string | number>
+): AuthFieldError {
+  return params ? { code, params } : { code };
+}
+
+/**
+ * Builds a failed AuthResult. `message` overrides the default English text for `code`;
+ * field messages default to the field catalog.
+ */
+export function authFailure(
+  code: AuthErrorCode,
+  options: {
+    message?: string;
+    fields?: Record<string, AuthFieldError & { message?: string }>;
+  } = {}
+): AuthResult {
+  const result: AuthResult = {
+    success: false,
+    code,
+    error: options.message || DEFAULT_ERROR_MESSAGES[code],
+  };
+
+  if (options.fields) {
+    result.errors = {};
+    result.fieldErrors = {};
+    for (const [field, { message, ...error }] of Object.entries(options.fields)) {
+      result.fieldErrors[field] = error;
+      result.errors[field] = message ||
+        interpolate(DEFAULT_FIELD_MESSAGES[error.code], { field, ...error.params });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,71 @@
+import type { AuthEvent, AuthEventMap, AuthEventType, AuthRequestContext } from '../types';
+
+export type AuthEventListener<T extends AuthEventType = AuthEventType> = (
+  event: AuthEvent<T>
+) => void | Promise<void>;
+
+export class AuthEventEmitter {
+  private listeners: Map<AuthEventType, Set<AuthEventListener<any>>> = new Map();
+  private anyListeners: Set<AuthEventListener> = new Set();
+  private onError?: (error: unknown) => void | Promise<void>;
+
+  constructor(onError?: (error: unknown) => void | Promise<void>) {
+    this.onError = onError;
+  }
+
+  // Returns a function that removes the listener again
+  on<T extends AuthEventType>(type: T, listener: AuthEventListener<T>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<T extends AuthEventType>(type: T, listener: AuthEventListener<T>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  once<T extends AuthEventType>(type: T, listener: AuthEventListener<T>): () => void {
+    const remove = this.on(type, (event) => {
+      remove();
+      return listener(event);
+    });
+    return remove;
+  }
+
+  onAny(listener: AuthEventListener): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  // Listeners run in order and are awaited; one that throws never fails the auth flow
+  async emit<T extends AuthEventType>(
+    type: T,
+    payload: AuthEventMap[T],
+    context: AuthRequestContext = {}
+  ): Promise<void> {
+    const event = { ...payload, type, timestamp: new Date(), context } as AuthEvent<T>;
+    const listeners: AuthEventListener<any>[] = [...(this.listeners.get(type) || []), ...this.anyListeners];
+
+    for (const listener of listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        await this.reportError(error);
+      }
+    }
+  }
+
+  private async reportError(error: unknown): Promise<void> {
+    try {
+      await this.onError?.(error);
+    } catch (callbackError) {
+      // Nothing left to report to
+    }
+  }
+}
@@ -0,0 +1,613 @@
+import type { AuthEngine } from './engine';
+import { JWTStrategy } from '../strategies/jwt';
+import type {
+  ApiKey,
+  AuthFieldError,
+  AuthResult,
+  AuthRequestContext,
+  MiddlewareOptions,
+  OAuthCallbackResult,
+  User,
+} from '../types';
+import { AuthErrorCode, authFailure, fieldError, getErrorStatus } from './errors';
+import { parseCookies } from '../middleware/cookies';
+
+// What every framework integration hands to the shared handlers
+export interface AuthHttpRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: any;
+  query?: Record<string, any>;
+  // Values for `:name` segments in the route path
+  params?: Record<string, string>;
+  ip?: string;
+  user?: User;
+  token?: string;
+  // Set when the request authenticated with an API key instead of a login token
+  apiKey?: ApiKey;
+}
+
+export interface AuthHttpResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: any;
+}
+
+export type AuthHttpHandler = (request: AuthHttpRequest) => Promise<AuthHttpResponse>;
+
+export type AuthOutcome =
+  | { success: true; user: User; token: string; apiKey?: ApiKey }
+  | { success: false; response: AuthHttpResponse };
+
+export interface AuthRouteDefinition {
+  name: AuthRouteName;
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  path: string;
+  auth?: 'required' | 'optional';
+  // Set when the route expects a JSON object body; lists the string fields it must contain
+  body?: string[];
+}
+
+export type AuthRouteName =
+  | 'register'
+  | 'login'
+  | 'logout'
+  | 'me'
+  | 'updateProfile'
+  | 'deleteAccount'
+  | 'exportData'
+  | 'changePassword'
+  | 'changeEmail'
+  | 'refresh'
+  | 'jwks'
+  | 'requestPasswordReset'
+  | 'resetPassword'
+  | 'verifyEmail'
+  | 'resendVerification'
+  | 'completeTwoFactor'
+  | 'enrollTwoFactor'
+  | 'confirmTwoFactor'
+  | 'disableTwoFactor'
+  | 'requestMagicLink'
+  | 'consumeMagicLink'
+  | 'activity'
+  | 'oauthAccounts'
+  | 'oauthAuthorize'
+  | 'oauthCallback'
+  | 'oauthLink'
+  | 'oauthUnlink'
+  | 'apiKeys'
+  | 'createApiKey'
+  | 'revokeApiKey'
+  | 'sessions'
+  | 'revokeSession';
+
+export const AUTH_ROUTES: AuthRouteDefinition[] = [
+  { name: 'register', method: 'POST', path: '/register', body: [] },
+  { name: 'login', method: 'POST', path: '/login', body: [] },
+  { name: 'logout', method: 'POST', path: '/logout', auth: 'optional' },
+  { name: 'me', method: 'GET', path: '/me', auth: 'required' },
+  { name: 'updateProfile', method: 'PATCH', path: '/me', auth: 'required', body: [] },
+  // `currentPassword` is optional for accounts without a password, so the body isn't enforced
+  { name: 'deleteAccount', method: 'DELETE', path: '/me', auth: 'required' },
+  { name: 'exportData', method: 'GET', path: '/me/export', auth: 'required' },
+  { name: 'changePassword', method: 'POST', path: '/password/change', auth: 'required', body: ['currentPassword', 'newPassword'] },
+  { name: 'changeEmail', method: 'POST', path: '/email/change', auth: 'required', body: ['newEmail', 'currentPassword'] },
+  { name: 'refresh', method: 'POST', path: '/refresh', body: ['refreshToken'] },
+  { name: 'jwks', method: 'GET', path: '/jwks' },
+  { name: 'requestPasswordReset', method: 'POST', path: '/password/forgot', body: ['email'] },
+  { name: 'resetPassword', method: 'POST', path: '/password/reset', body: ['token', 'password'] },
+  { name: 'verifyEmail', method: 'POST', path: '/verify-email', body: ['token'] },
+  { name: 'verifyEmail', method: 'GET', path: '/verify-email' },
+  { name: 'resendVerification', method: 'POST', path: '/verify-email/resend', body: ['email'] },
+  { name: 'completeTwoFactor', method: 'POST', path: '/2fa/verify', body: ['challenge', 'code'] },
+  { name: 'enrollTwoFactor', method: 'POST', path: '/2fa/enroll', auth: 'required' },
+  { name: 'confirmTwoFactor', method: 'POST', path: '/2fa/confirm', auth: 'required', body: ['code'] },
+  { name: 'disableTwoFactor', method: 'POST', path: '/2fa/disable', auth: 'required', body: ['code'] },
+  { name: 'requestMagicLink', method: 'POST', path: '/magic-link', body: ['email'] },
+  { name: 'consumeMagicLink', method: 'POST', path: '/magic-link/verify', body: ['token'] },
+  { name: 'consumeMagicLink', method: 'GET', path: '/magic-link/verify' },
+  { name: 'activity', method: 'GET', path: '/activity', auth: 'required' },
+  // Before `/oauth/:provider`, which would otherwise match it
+  { name: 'oauthAccounts', method: 'GET', path: '/oauth/accounts', auth: 'required' },
+  { name: 'oauthAuthorize', method: 'GET', path: '/oauth/:provider' },
+  { name: 'oauthCallback', method: 'GET', path: '/oauth/:provider/callback' },
+  { name: 'oauthLink', method: 'POST', path: '/oauth/:provider/link', auth: 'required' },
+  { name: 'oauthUnlink', method: 'DELETE', path: '/oauth/:provider', auth: 'required' },
+  { name: 'apiKeys', method: 'GET', path: '/api-keys', auth: 'required' },
+  { name: 'createApiKey', method: 'POST', path: '/api-keys', auth: 'required', body: ['name'] },
+  { name: 'revokeApiKey', method: 'DELETE', path: '/api-keys/:id', auth: 'required' },
+  { name: 'sessions', method: 'GET', path: '/sessions', auth: 'required' },
+  { name: 'revokeSession', method: 'DELETE', path: '/sessions/:id', auth: 'required' },
+];
+
+// Matches a concrete path against a route path with `:name` segments; null when it doesn't fit
+export function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternSegments = pattern.split('/');
+  const pathSegments = path.split('/');
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternSegments.length; index++) {
+    const expected = patternSegments[index];
+    const actual = pathSegments[index];
+    if (expected.startsWith(':')) {
+      if (!actual) return null;
+      try {
+        params[expected.slice(1)] = decodeURIComponent(actual);
+      } catch (error) {
+        // A malformed escape like `%E0%A4%A` can't name anything, so the route doesn't match
+        return null;
+      }
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return params;
+}
+
+export function getHeader(request: AuthHttpRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function getBearerToken(request: AuthHttpRequest): string | undefined {
+  const header = getHeader(request, 'authorization');
+  return header && header.startsWith('Bearer ') ? header.substring(7) : undefined;
+}
+
+// A Bearer token, or an API key sent in X-API-Key; API keys also work as Bearer tokens
+export function getRequestToken(request: AuthHttpRequest): string | undefined {
+  return getBearerToken(request) || getHeader(request, 'x-api-key') || undefined;
+}
+
+export function getRequestContext(request: AuthHttpRequest): AuthRequestContext {
+  return {
+    ip: request.ip,
+    userAgent: getHeader(request, 'user-agent'),
+  };
+}
+
+export const OAUTH_STATE_COOKIE = 'qa_oauth_state';
+
+// Binds an OAuth flow to the browser that started it; Lax so the provider's redirect back still carries it
+export function oauthStateCookie(state: string | null): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return state === null
+    ? `${OAUTH_STATE_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax${secure}`
+    : `${OAUTH_STATE_COOKIE}=${encodeURIComponent(state)}; Path=/; HttpOnly; SameSite=Lax${secure}`;
+}
+
+export function completeOAuthRequest(auth: AuthEngine, request: AuthHttpRequest): Promise<OAuthCallbackResult> {
+  return auth.completeOAuth(
+    request.params?.provider as string,
+    {
+      code: request.query?.code,
+      state: request.query?.state,
+      error: request.query?.error,
+      browserState: parseCookies(getHeader(request, 'cookie'))[OAUTH_STATE_COOKIE],
+    },
+    getRequestContext(request)
+  );
+}
+
+// Tokens travel in the fragment, which browsers never send to a server or put in a Referer
+function oauthRedirectLocation(result: OAuthCallbackResult): string {
+  const fragment = new URLSearchParams();
+  for (const key of ['token', 'refreshToken', 'challenge'] as const) {
+    if (result[key]) fragment.set(key, result[key] as string);
+  }
+  const location = result.redirectTo || '/';
+  const encoded = fragment.toString();
+  return encoded ? `${location}#${encoded}` : location;
+}
+
+// Locale picked from Accept-Language among the configured catalogs
+export function getLocale(auth: AuthEngine, request: AuthHttpRequest): string | undefined {
+  return auth.resolveLocale(getHeader(request, 'accept-language'));
+}
+
+// For exceptions a handler or hook let escape: reported like the engine's own, then a plain 500
+export async function internalErrorResponse(
+  auth: AuthEngine,
+  request: AuthHttpRequest,
+  error: unknown
+): Promise<AuthHttpResponse> {
+  await auth.reportError(error);
+  return localizeResponse(auth, request, failure(AuthErrorCode.INTERNAL_ERROR));
+}
+
+export function localizeResponse(
+  auth: AuthEngine,
+  request: AuthHttpRequest,
+  response: AuthHttpResponse
+): AuthHttpResponse {
+  if (!response.body || response.body.success !== false || !response.body.code) {
+    return response;
+  }
+  return { ...response, body: auth.localize(response.body, getLocale(auth, request)) };
+}
+
+export function authorize(
+  auth: AuthEngine,
+  user: User,
+  options: MiddlewareOptions,
+  apiKey?: ApiKey
+): AuthErrorCode | null {
+  const unverified = options.requireVerified ? user.emailVerified === false : auth.requiresVerifiedEmail(user);
+  if (unverified) {
+    return AuthErrorCode.EMAIL_NOT_VERIFIED;
+  }
+  if (options.roles && options.roles.length > 0 && !auth.hasRole(user, options.roles)) {
+    return AuthErrorCode.INSUFFICIENT_PERMISSIONS;
+  }
+  if (options.permissions && !options.permissions.every((permission) => auth.can(user, permission))) {
+    return AuthErrorCode.INSUFFICIENT_PERMISSIONS;
+  }
+  if (apiKey && options.scopes && !options.scopes.every((scope) => auth.hasScope(apiKey, scope))) {
+    return AuthErrorCode.INSUFFICIENT_SCOPE;
+  }
+  return null;
+}
+
+export async function resolveUser(
+  auth: AuthEngine,
+  user: User,
+  options: MiddlewareOptions
+): Promise<User | null> {
+  if (!options.loadUser) return user;
+
+  const fresh = await auth.loadUser(user.id);
+  return fresh ? { ...user, ...fresh } : null;
+}
+
+const ACCOUNT_STATUS_CODES: AuthErrorCode[] = [
+  AuthErrorCode.ACCOUNT_DISABLED,
+  AuthErrorCode.ACCOUNT_LOCKED,
+  AuthErrorCode.ACCOUNT_PENDING_DELETION,
+];
+
+export async function authenticateToken(
+  auth: AuthEngine,
+  token: string | undefined,
+  options: MiddlewareOptions = {},
+  request?: AuthHttpRequest
+): Promise<AuthOutcome> {
+  const reject = (result: AuthResult): AuthOutcome => {
+    const body = auth.localize(result, request && getLocale(auth, request));
+    return { success: false, response: { status: getErrorStatus(body.code), body } };
+  };
+
+  if (!token) {
+    return reject(authFailure(AuthErrorCode.AUTHENTICATION_REQUIRED));
+  }
+
+  try {
+    const result = await auth.verifyToken(token, request && getRequestContext(request));
+    if (!result.success || !result.user) {
+      // Whatever the strategy reports, a rejected token is a 401; a valid token for an inactive account keeps its 403
+      return reject(result.code && (getErrorStatus(result.code) === 401 || ACCOUNT_STATUS_CODES.includes(result.code))
+        ? result
+        : authFailure(AuthErrorCode.TOKEN_INVALID, { message: result.error }));
+    }
+
+    const user = await resolveUser(auth, result.user, options);
+    if (!user) {
+      return reject(authFailure(AuthErrorCode.TOKEN_INVALID, { message: 'User not found' }));
+    }
+
+    const forbidden = authorize(auth, user, options, result.apiKey);
+    if (forbidden) {
+      return reject(authFailure(forbidden));
+    }
+
+    return { success: true, user, token, apiKey: result.apiKey };
+  } catch (error) {
+    return reject(authFailure(AuthErrorCode.TOKEN_INVALID, { message: 'Authentication failed' }));
+  }
+}
+
+export function createAuthHandlers(auth: AuthEngine): Record<AuthRouteName, AuthHttpHandler> {
+  // Account management needs a real sign-in; an API key only gets through where `allowApiKey` is set
+  const requireUser = (
+    handler: (user: User, request: AuthHttpRequest) => Promise<AuthHttpResponse>,
+    allowApiKey = false
+  ): AuthHttpHandler => {
+    return async (request) => {
+      if (!request.user) {
+        return failure(AuthErrorCode.AUTHENTICATION_REQUIRED);
+      }
+      if (request.apiKey && !allowApiKey) {
+        return failure(AuthErrorCode.API_KEY_NOT_ALLOWED);
+      }
+      return handler(request.user, request);
+    };
+  };
+
+  const handlers: Record<AuthRouteName, AuthHttpHandler> = {
+    register: async (request) => {
+      const result = await auth.register(request.body, getRequestContext(request));
+      return respond(result, 201);
+    },
+
+    login: async (request) => {
+      const result = await auth.login(request.body, getRequestContext(request));
+      return respond(result, 200);
+    },
+
+    logout: async (request) => {
+      if (request.body?.refreshToken) {
+        await auth.revokeRefreshToken(request.body.refreshToken);
+      }
+      if (request.user && !request.apiKey) {
+        await auth.logout(request.user, request.token, getRequestContext(request));
+      }
+      return { status: 200, body: { success: true } };
+    },
+
+    me: requireUser(async (user) => ({ status: 200, body: { success: true, user } }), true),
+
+    updateProfile: requireUser(async (user, request) => {
+      const result = await auth.updateProfile(user.id, request.body, getRequestContext(request));
+      return respond(result, 200);
+    }),
+
+    deleteAccount: requireUser(async (user, request) => {
+      const result = await auth.requestAccountDeletion(
+        user.id,
+        request.body?.currentPassword,
+        getRequestContext(request)
+      );
+      return respond(result, 200);
+    }),
+
+    exportData: requireUser(async (user) => {
+      const data = await auth.exportUserData(user.id);
+      return data ? { status: 200, body: { success: true, data } } : failure(AuthErrorCode.USER_NOT_FOUND);
+    }),
+
+    changePassword: requireUser(async (user, request) => {
+      const result = await auth.changePassword(
+        user.id,
+        request.body?.currentPassword,
+        request.body?.newPassword,
+        getRequestContext(request)
+      );
+      return respond(result, 200);
+    }),
+
+    changeEmail: requireUser(async (user, request) => {
+      const result = await auth.changeEmail(
+        user.id,
+        request.body?.newEmail,
+        request.body?.currentPassword,
+        getRequestContext(request)
+      );
+      return respond(result, 200);
+    }),
+
+    refresh: async (request) => {
+      const result = await auth.refresh(request.body?.refreshToken, getRequestContext(request));
+      return respond(result, 200);
+    },
+
+    jwks: async () => {
+      const strategy = auth.getStrategy();
+      if (!(strategy instanceof JWTStrategy)) {
+        return failure(AuthErrorCode.NOT_FOUND, { message: 'JWKS is only available with JWTStrategy' });
+      }
+      return { status: 200, body: strategy.getJWKS() };
+    },
+
+    requestPasswordReset: async (request) => {
+      const result = await auth.requestPasswordReset(request.body?.email);
+      return respond(result, 200);
+    },
+
+    resetPassword: async (request) => {
+      const result = await auth.resetPassword(
+        request.body?.token,
+        request.body?.password,
+        getRequestContext(request)
+      );
+      return respond(result, 200);
+    },
+
+    verifyEmail: async (request) => {
+      // As with magic links, a GET from a link scanner must not use the token up
+      if (request.method === 'GET') {
+        return respond(await auth.checkEmailVerification(request.query?.token), 200);
+      }
+      const result = await auth.verifyEmail(request.body?.token, getRequestContext(request));
+      return respond(result, 200);
+    },
+
+    resendVerification: async (request) => {
+      const result = await auth.resendVerification(request.body?.email);
+      return respond(result, 200);
+    },
+
+    completeTwoFactor: async (request) => {
+      const result = await auth.completeTwoFactor(
+        request.body?.challenge,
+        request.body?.code,
+        getRequestContext(request)
+      );
+      return respond(result, 200);
+    },
+
+    enrollTwoFactor: requireUser(async (user) => {
+      const result = await auth.enrollTwoFactor(user.id);
+      return respond(result, 200);
+    }),
+
+    confirmTwoFactor: requireUser(async (user, request) => {
+      const result = await auth.confirmTwoFactor(user.id, request.body?.code, getRequestContext(request));
+      return respond(result, 200);
+    }),
+
+    disableTwoFactor: requireUser(async (user, request) => {
+      const result = await auth.disableTwoFactor(user.id, request.body?.code, getRequestContext(request));
+      return respond(result, 200);
+    }),
+
+    requestMagicLink: async (request) => {
+      const result = await auth.requestMagicLink(request.body?.email);
+      return respond(result, 200);
+    },
+
+    consumeMagicLink: async (request) => {
+      // GET only checks the link; the token is spent by the POST that confirms it
+      if (request.method === 'GET') {
+        return respond(await auth.checkMagicLink(request.query?.token), 200);
+      }
+      const result = await auth.consumeMagicLink(request.body?.token, getRequestContext(request));
+      return respond(result, 200);
+    },
+
+    activity: requireUser(async (user, request) => {
+      if (!auth.isAuditLogEnabled()) {
+        return failure(AuthErrorCode.FEATURE_DISABLED, { message: 'Audit log is not enabled' });
+      }
+      const limit = Math.min(Number(request.query?.limit) || 20, 100);
+      return { status: 200, body: { success: true, activity: await auth.getSecurityActivity(user.id, limit) } };
+    }),
+
+    oauthAccounts: requireUser(async (user) => {
+      return { status: 200, body: { success: true, accounts: await auth.listLinkedAccounts(user.id) } };
+    }),
+
+    // Browsers land here from a "Sign in with ..." link, so success is a redirect to the provider
+    oauthAuthorize: async (request) => {
+      const result = await auth.getOAuthAuthorizationUrl(request.params?.provider as string, {
+        redirectTo: request.query?.redirectTo,
+      });
+      if (!result.success) {
+        return respond(result, 200);
+      }
+      return {
+        status: 302,
+        headers: { Location: result.url as string, 'Set-Cookie': oauthStateCookie(result.state as string) },
+        body: result,
+      };
+    },
+
+    // The provider sends the browser here, so success is a redirect back into the app rather than a JSON token
+    oauthCallback: async (request) => {
+      const result = await completeOAuthRequest(auth, request);
+      const clearState = { 'Set-Cookie': oauthStateCookie(null) };
+      if (!result.success) {
+        const response = respond(result, 200);
+        return { ...response, headers: { ...response.headers, ...clearState } };
+      }
+      return {
+        status: 302,
+        headers: { ...clearState, Location: oauthRedirectLocation(result) },
+        body: { success: true },
+      };
+    },
+
+    // Call it from the browser that will visit `url`: the state cookie it sets must come back on the callback
+    oauthLink: requireUser(async (user, request) => {
+      const result = await auth.getOAuthAuthorizationUrl(request.params?.provider as string, {
+        redirectTo: request.body?.redirectTo,
+        linkUserId: user.id,
+      });
+      const response = respond(result, 200);
+      return result.success
+        ? { ...response, headers: { 'Set-Cookie': oauthStateCookie(result.state as string) } }
+        : response;
+    }),
+
+    oauthUnlink: requireUser(async (user, request) => {
+      const result = await auth.unlinkAccount(user.id, request.params?.provider as string, getRequestContext(request));
+      return respond(result, 200);
+    }),
+
+    apiKeys: requireUser(async (user) => {
+      return { status: 200, body: { success: true, apiKeys: await auth.listApiKeys(user.id) } };
+    }),
+
+    // The response is the only time the key itself is shown
+    createApiKey: requireUser(async (user, request) => {
+      const result = await auth.createApiKey(user.id, {
+        name: request.body?.name,
+        scopes: request.body?.scopes,
+        expiresIn: request.body?.expiresIn,
+      }, getRequestContext(request));
+      return respond(result, 201);
+    }),
+
+    revokeApiKey: requireUser(async (user, request) => {
+      const result = await auth.revokeApiKey(user.id, request.params?.id as string, getRequestContext(request));
+      return respond(result, 200);
+    }),
+
+    // `current` marks the session the request's own token belongs to
+    sessions: requireUser(async (user) => {
+      const sessions = await auth.listSessions(user.id);
+      return {
+        status: 200,
+        body: {
+          success: true,
+          sessions: sessions.map((session) => ({ ...session, current: session.id === user.sessionId })),
+        },
+      };
+    }),
+
+    revokeSession: requireUser(async (user, request) => {
+      const result = await auth.revokeSession(user.id, request.params?.id as string, getRequestContext(request));
+      return respond(result, 200);
+    }),
+  };
+
+  // Failure messages follow the request's Accept-Language when catalogs are configured
+  for (const name of Object.keys(handlers) as AuthRouteName[]) {
+    const handler = handlers[name];
+    handlers[name] = async (request) => localizeResponse(auth, request, await handler(request));
+  }
+
+  return handlers;
+}
+
+export function failure(
+  code: AuthErrorCode,
+  options?: { message?: string; fields?: Record<string, AuthFieldError & { message?: string }> }
+): AuthHttpResponse {
+  return { status: getErrorStatus(code), body: authFailure(code, options) };
+}
+
+export function validateBody(route: AuthRouteDefinition, body: unknown): AuthHttpResponse | null {
+  if (!route.body) return null;
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return failure(AuthErrorCode.INVALID_REQUEST, { message: 'Request body must be a JSON object' });
+  }
+
+  const fields: Record<string, AuthFieldError> = {};
+  for (const field of route.body) {
+    const value = (body as Record<string, unknown>)[field];
+    if (typeof value !== 'string' || value.length === 0) {
+      fields[field] = fieldError('REQUIRED');
+    }
+  }
+
+  const missing = Object.keys(fields);
+  return missing.length > 0
+    ? failure(AuthErrorCode.VALIDATION_FAILED, { message: `${missing[0]} is required`, fields })
+    : null;
+}
+
+function respond(result: AuthResult, successStatus: number): AuthHttpResponse {
+  if (result.success) {
+    return { status: successStatus, body: result };
+  }
+  if (result.retryAfter) {
+    return {
+      status: getErrorStatus(AuthErrorCode.TOO_MANY_ATTEMPTS),
+      headers: { 'Retry-After': String(result.retryAfter) },
+      body: result,
+    };
+  }
+  return { status: getErrorStatus(result.code), body: result };
+}
@@ -0,0 +1,61 @@
+import type { AuthMessageCatalog, AuthResult } from '../types';
+import { AuthErrorCode, interpolate } from './errors';
+
+export function localizeResult(result: AuthResult, catalog: AuthMessageCatalog): AuthResult {
+  if (result.success || !result.code) return result;
+
+  const localized: AuthResult = { ...result };
+  const fieldNames = catalog.fieldNames || {};
+
+  if (result.fieldErrors) {
+    localized.errors = { ...result.errors };
+    for (const [field, error] of Object.entries(result.fieldErrors)) {
+      const template = catalog.fields?.[error.code];
+      if (template) {
+        localized.errors[field] = interpolate(template, { ...error.params, field: fieldNames[field] || field });
+      }
+    }
+  }
+
+  // Validation failures lead with the first field message, as the engine does
+  const firstField = localized.errors && Object.values(localized.errors)[0];
+  if (result.code === AuthErrorCode.VALIDATION_FAILED && firstField && result.fieldErrors) {
+    localized.error = firstField;
+  } else if (catalog.errors?.[result.code]) {
+    localized.error = catalog.errors[result.code];
+  }
+
+  return localized;
+}
+
+// Picks the best available locale for an Accept-Language header ("fr-CH, fr;q=0.9, en;q=0.8")
+export function negotiateLocale(
+  acceptLanguage: string | undefined,
+  available: string[],
+  fallback?: string
+): string | undefined {
+  if (!acceptLanguage) return fallback;
+
+  const requested = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: q ? Number(q.trim().slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.q > 0 && !Number.isNaN(entry.q))
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  const locales = available.map((locale) => ({ locale, tag: locale.toLowerCase() }));
+  for (const { tag } of requested) {
+    if (tag === '*') return fallback ?? available[0];
+
+    const base = tag.split('-')[0];
+    const match = locales.find((entry) => entry.tag === tag) ||
+      locales.find((entry) => entry.tag === base) ||
+      locales.find((entry) => entry.tag.split('-')[0] === base);
+    if (match) return match.locale;
+  }
+
+  return fallback;
+}
@@ -0,0 +1,42 @@
+import type { User } from '../types';
+
+const SEPARATOR = ':';
+
+// A configured `roleField` is the only place roles are read from
+export function getUserRoles(user: User, roleField?: string): string[] {
+  const value = roleField ? user[roleField] : user.role ?? user.roles;
+  if (Array.isArray(value)) {
+    return value.filter((role): role is string => typeof role === 'string');
+  }
+  return typeof value === 'string' ? [value] : [];
+}
+
+// `*` matches one segment, or everything below when it is the last segment:
+// `posts:*` grants `posts:read` and `posts:comments:delete`, `*` grants anything.
+export function matchesPermission(granted: string, required: string): boolean {
+  if (granted === required) return true;
+
+  const grantedParts = granted.split(SEPARATOR);
+  const requiredParts = required.split(SEPARATOR);
+
+  for (let i = 0; i < grantedParts.length; i++) {
+    const part = grantedParts[i];
+    const isLast = i === grantedParts.length - 1;
+
+    if (part === '*' && isLast) {
+      return requiredParts.length > i;
+    }
+    if (i >= requiredParts.length) {
+      return false;
+    }
+    if (part !== '*' && part !== requiredParts[i]) {
+      return false;
+    }
+  }
+
+  return grantedParts.length === requiredParts.length;
+}
+
+export function resolvePermissions(roles: string[], roleMap: Record<string, string[]>): string[] {
+  return roles.flatMap((role) => roleMap[role] || []);
+}
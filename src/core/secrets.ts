@@ -0,0 +1,67 @@
+import type { ConfigIssue } from '../types';
+
+// RFC 7518: an HMAC key must be at least as long as the hash output
+const MIN_SECRET_LENGTH: Record<string, number> = {
+  HS256: 32,
+  HS384: 48,
+  HS512: 64,
+};
+
+const MIN_ENTROPY_BITS = 128;
+// Below this the secret is guessable, not just weak
+const GUESSABLE_ENTROPY_BITS = 64;
+
+const PLACEHOLDER_PATTERN = /secret|passw|changeme|change-me|example|default|your|test|qwerty|12345/i;
+
+const GENERATE_HINT = 'Run `quick-auth generate-secret` and load the result from JWT_SECRET';
+
+/**
+ * Shannon entropy of the string times its length. Only an upper bound: a random-looking
+ * string can still be guessable, but a low value always means a weak secret.
+ */
+export function estimateEntropyBits(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  const length = [...value].length;
+  let bitsPerChar = 0;
+  for (const count of counts.values()) {
+    const p = count / length;
+    bitsPerChar -= p * Math.log2(p);
+  }
+  return Math.round(bitsPerChar * length);
+}
+
+export function checkSecret(secret: string, algorithm = 'HS256'): ConfigIssue[] {
+  const minLength = MIN_SECRET_LENGTH[algorithm] ?? MIN_SECRET_LENGTH.HS256;
+  if (secret.length < minLength) {
+    return [{
+      severity: 'error',
+      code: 'WEAK_SECRET',
+      message: `The JWT secret is ${secret.length} characters; ${algorithm} needs at least ${minLength}`,
+      hint: GENERATE_HINT,
+    }];
+  }
+
+  if (PLACEHOLDER_PATTERN.test(secret)) {
+    return [{
+      severity: 'error',
+      code: 'PLACEHOLDER_SECRET',
+      message: 'The JWT secret looks like a placeholder or a password, not a random key',
+      hint: GENERATE_HINT,
+    }];
+  }
+
+  const bits = estimateEntropyBits(secret);
+  if (bits < MIN_ENTROPY_BITS) {
+    return [{
+      severity: bits < GUESSABLE_ENTROPY_BITS ? 'error' : 'warning',
+      code: 'LOW_ENTROPY_SECRET',
+      message: `The JWT secret has about ${bits} bits of entropy; use at least ${MIN_ENTROPY_BITS}`,
+      hint: GENERATE_HINT,
+    }];
+  }
+  return [];
+}
@@ -0,0 +1,166 @@
+import type { ThrottleConfig, ThrottleStore, ThrottleRecord, LockoutEvent } from '../types';
+import { MemoryThrottleStore } from '../stores/throttle';
+import { parseDuration } from './duration';
+
+const DEFAULTS = {
+  maxAttempts: 5,
+  maxAttemptsPerClient: 20,
+  freeAttempts: 3,
+  backoffBase: '1s',
+  backoffMax: '5m',
+  lockoutDuration: '15m',
+  window: '15m',
+};
+
+interface ThrottleKey {
+  type: LockoutEvent['type'];
+  identifier: string;
+  maxAttempts: number;
+}
+
+export class LoginThrottle {
+  private store: ThrottleStore;
+  private config: ThrottleConfig;
+  private onLockout?: (event: LockoutEvent) => void | Promise<void>;
+
+  constructor(config: ThrottleConfig, onLockout?: (event: LockoutEvent) => void | Promise<void>) {
+    this.config = config;
+    this.store = config.store || new MemoryThrottleStore();
+    this.onLockout = onLockout;
+  }
+
+  // Counts the attempt as a failure before the password is checked, so parallel requests can't all
+  // pass before any failure is recorded. Returns the number of seconds to wait, or 0 when it may go ahead
+  async reserve(email: string, clientKey?: string): Promise<number> {
+    const now = Date.now();
+    const reserved: ThrottleKey[] = [];
+    let waitMs = 0;
+
+    for (const key of this.keys(email, clientKey)) {
+      let wait = 0;
+      await this.update(this.storeKey(key), (record) => {
+        wait = record ? this.nextAllowedAt(record, now) - now : 0;
+        if (wait > 0) return record;
+        return { ...record, failures: (record?.failures ?? 0) + 1, lastFailureAt: now };
+      });
+
+      if (wait > 0) {
+        waitMs = Math.max(waitMs, wait);
+      } else {
+        reserved.push(key);
+      }
+    }
+
+    if (waitMs > 0) {
+      // A throttled attempt never reaches the password check, so it doesn't count
+      await this.release(reserved);
+      return Math.ceil(waitMs / 1000);
+    }
+    return 0;
+  }
+
+  // The failure was counted by `reserve`; this applies the lockout once the limit is reached
+  async recordFailure(email: string, clientKey?: string): Promise<void> {
+    const now = Date.now();
+    const lockoutDuration = parseDuration(this.config.lockoutDuration ?? DEFAULTS.lockoutDuration);
+
+    for (const key of this.keys(email, clientKey)) {
+      let lockedUntil: number | undefined;
+      await this.update(this.storeKey(key), (record) => {
+        lockedUntil = undefined;
+        const current = record ?? { failures: 1, lastFailureAt: now };
+        if (current.failures < key.maxAttempts || (current.lockedUntil && current.lockedUntil > now)) {
+          return current;
+        }
+        lockedUntil = now + lockoutDuration;
+        return { ...current, lockedUntil };
+      });
+
+      if (lockedUntil && this.onLockout) {
+        await this.onLockout({
+          type: key.type,
+          identifier: key.identifier,
+          until: new Date(lockedUntil),
+        });
+      }
+    }
+  }
+
+  // Only the account counter resets: one good login must not clear a client that is spraying other
+  // accounts, so the client only gets back the attempt `reserve` counted
+  async recordSuccess(email: string, clientKey?: string): Promise<void> {
+    const [account, ...clients] = this.keys(email, clientKey);
+    await this.store.resetAttempts(this.storeKey(account));
+    await this.release(clients);
+  }
+
+  private async release(keys: ThrottleKey[]): Promise<void> {
+    for (const key of keys) {
+      await this.update(this.storeKey(key), (record) => {
+        if (!record) return null;
+        return { ...record, failures: Math.max(record.failures - 1, 0) };
+      });
+    }
+  }
+
+  // Atomic when the store implements `updateAttempts`; otherwise a read followed by a write
+  private async update(
+    key: string,
+    update: (record: ThrottleRecord | null) => ThrottleRecord | null
+  ): Promise<void> {
+    const window = parseDuration(this.config.window ?? DEFAULTS.window);
+    const lockoutDuration = parseDuration(this.config.lockoutDuration ?? DEFAULTS.lockoutDuration);
+    const ttlMs = Math.max(window, lockoutDuration);
+
+    if (typeof this.store.updateAttempts === 'function') {
+      await this.store.updateAttempts(key, update, ttlMs);
+      return;
+    }
+
+    const record = update(await this.store.getAttempts(key));
+    if (record) {
+      await this.store.saveAttempts(key, record, ttlMs);
+    } else {
+      await this.store.resetAttempts(key);
+    }
+  }
+
+  private keys(email: string, clientKey?: string): ThrottleKey[] {
+    const keys: ThrottleKey[] = [{
+      type: 'email',
+      identifier: String(email).toLowerCase(),
+      maxAttempts: this.config.maxAttempts ?? DEFAULTS.maxAttempts,
+    }];
+
+    if (clientKey) {
+      keys.push({
+        type: 'client',
+        identifier: clientKey,
+        maxAttempts: this.config.maxAttemptsPerClient ?? DEFAULTS.maxAttemptsPerClient,
+      });
+    }
+
+    return keys;
+  }
+
+  private storeKey(key: ThrottleKey): string {
+    return `${key.type}:${key.identifier}`;
+  }
+
+  private nextAllowedAt(record: ThrottleRecord, now: number): number {
+    if (record.lockedUntil && record.lockedUntil > now) {
+      return record.lockedUntil;
+    }
+
+    const freeAttempts = this.config.freeAttempts ?? DEFAULTS.freeAttempts;
+    if (record.failures < freeAttempts) {
+      return 0;
+    }
+
+    const base = parseDuration(this.config.backoffBase ?? DEFAULTS.backoffBase);
+    const max = parseDuration(this.config.backoffMax ?? DEFAULTS.backoffMax);
+    const delay = Math.min(base * 2 ** (record.failures - freeAttempts), max);
+
+    return record.lastFailureAt + delay;
+  }
+}
@@ -0,0 +1,9 @@
+import crypto from 'crypto';
+
+export function generateOpaqueToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
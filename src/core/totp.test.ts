@@ -0,0 +1,54 @@
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotp, generateTotpSecret, verifyTotp } from './totp';
+
+// RFC 6238 appendix B, SHA-1 secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+  ])('matches the RFC 6238 vector at %i seconds', (seconds, expected) => {
+    expect(generateTotp(RFC_SECRET, seconds * 1000, { digits: 8 })).toBe(expected);
+  });
+
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('any bytes at all');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('returns the matched time step within the window', () => {
+    const timestamp = 1234567890 * 1000;
+    const step = Math.floor(1234567890 / 30);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, timestamp), { timestamp })).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, timestamp - 30000), { timestamp })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, timestamp + 30000), { timestamp })).toBe(step + 1);
+  });
+
+  it('rejects codes outside the window and malformed codes', () => {
+    const timestamp = 1234567890 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, timestamp - 60000), { timestamp })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, timestamp - 30000), { timestamp, window: 0 })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', { timestamp })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', { timestamp })).toBeNull();
+  });
+
+  it('builds an otpauth URI authenticator apps understand', () => {
+    const uri = new URL(buildOtpauthUri({ secret: RFC_SECRET, accountName: 'ada@example.com', issuer: 'Acme Inc' }));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Acme Inc:ada@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Acme Inc',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
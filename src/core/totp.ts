@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number;
+  period?: number;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  timestamp?: number;
+  window?: number;
+}
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character: ' + char);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(bytes = 20): string {
+  return base32Encode(crypto.randomBytes(bytes));
+}
+
+// RFC 4226 HOTP with SHA-1, the only algorithm authenticator apps reliably support
+export function generateHotp(secret: string, counter: number, digits = 6): string {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(buffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export function getTimeStep(timestamp: number, period = 30): number {
+  return Math.floor(timestamp / 1000 / period);
+}
+
+export function generateTotp(secret: string, timestamp: number = Date.now(), options: TotpOptions = {}): string {
+  return generateHotp(secret, getTimeStep(timestamp, options.period), options.digits);
+}
+
+// Returns the matching time step so callers can refuse to accept it twice
+export function verifyTotp(secret: string, code: string, options: VerifyTotpOptions = {}): number | null {
+  const digits = options.digits ?? 6;
+  if (typeof code !== 'string' || !new RegExp(`^\\d{${digits}}$`).test(code)) {
+    return null;
+  }
+
+  const current = getTimeStep(options.timestamp ?? Date.now(), options.period);
+  const window = options.window ?? 1;
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = current + offset;
+    const expected = generateHotp(secret, step, digits);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+  digits?: number;
+  period?: number;
+}): string {
+  const label = encodeURIComponent(params.issuer) + ':' + encodeURIComponent(params.accountName);
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(params.digits ?? 6),
+    period: String(params.period ?? 30),
+  });
+
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
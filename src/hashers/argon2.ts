@@ -0,0 +1,81 @@
+import type { PasswordHasher } from '../types';
+import { parsePhc } from './phc';
+
+// The parts of the `argon2` package this hasher uses; pass `require('argon2')`
+export interface Argon2Module {
+  hash(password: string, options?: Record<string, any>): Promise<string>;
+  verify(hash: string, password: string): Promise<boolean>;
+}
+
+export type Argon2Type = 'argon2id' | 'argon2i' | 'argon2d';
+
+export interface Argon2HasherOptions {
+  argon2: Argon2Module;
+  type?: Argon2Type;
+  // KiB
+  memoryCost?: number;
+  timeCost?: number;
+  parallelism?: number;
+}
+
+// Numeric type constants used by the `argon2` package
+const ARGON2_TYPES: Record<Argon2Type, number> = {
+  argon2d: 0,
+  argon2i: 1,
+  argon2id: 2,
+};
+
+const ARGON2_VERSION = 19;
+const DEFAULT_MEMORY_COST = 65536;
+const DEFAULT_TIME_COST = 3;
+const DEFAULT_PARALLELISM = 4;
+
+export class Argon2Hasher implements PasswordHasher {
+  private argon2: Argon2Module;
+  private type: Argon2Type;
+  private memoryCost: number;
+  private timeCost: number;
+  private parallelism: number;
+
+  constructor(options: Argon2HasherOptions) {
+    this.argon2 = options.argon2;
+    this.type = options.type ?? 'argon2id';
+    this.memoryCost = options.memoryCost ?? DEFAULT_MEMORY_COST;
+    this.timeCost = options.timeCost ?? DEFAULT_TIME_COST;
+    this.parallelism = options.parallelism ?? DEFAULT_PARALLELISM;
+  }
+
+  async hash(password: string): Promise<string> {
+    return this.argon2.hash(password, {
+      type: ARGON2_TYPES[this.type],
+      memoryCost: this.memoryCost,
+      timeCost: this.timeCost,
+      parallelism: this.parallelism,
+    });
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    if (!this.identify(hash)) return false;
+
+    try {
+      return await this.argon2.verify(hash, password);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  needsRehash(hash: string): boolean {
+    const parsed = parsePhc(hash);
+    return !parsed ||
+      parsed.id !== this.type ||
+      parsed.version !== ARGON2_VERSION ||
+      Number(parsed.params.m) !== this.memoryCost ||
+      Number(parsed.params.t) !== this.timeCost ||
+      Number(parsed.params.p) !== this.parallelism;
+  }
+
+  identify(hash: string): boolean {
+    const parsed = parsePhc(hash);
+    return !!parsed && parsed.id in ARGON2_TYPES && !!parsed.hash;
+  }
+}
@@ -0,0 +1,34 @@
+import bcrypt from 'bcrypt';
+import type { PasswordHasher } from '../types';
+
+export interface BcryptHasherOptions {
+  rounds?: number;
+}
+
+const DEFAULT_ROUNDS = 12;
+const BCRYPT_PATTERN = /^\$2[abxy]?\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+export class BcryptHasher implements PasswordHasher {
+  private rounds: number;
+
+  constructor(options: BcryptHasherOptions = {}) {
+    this.rounds = options.rounds ?? DEFAULT_ROUNDS;
+  }
+
+  async hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.rounds);
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    if (!this.identify(hash)) return false;
+    return bcrypt.compare(password, hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    return !this.identify(hash) || bcrypt.getRounds(hash) !== this.rounds;
+  }
+
+  identify(hash: string): boolean {
+    return BCRYPT_PATTERN.test(hash);
+  }
+}
@@ -0,0 +1,43 @@
+import type { PasswordHasher } from '../types';
+
+export interface DispatchingHasherOptions {
+  // Creates every new hash
+  primary: PasswordHasher;
+  // Only used to verify hashes in their format; each needs `identify()`
+  legacy?: PasswordHasher[];
+}
+
+// Verifies hashes from several algorithms and flags anything not made by `primary` for rehash
+export class DispatchingHasher implements PasswordHasher {
+  private primary: PasswordHasher;
+  private hashers: PasswordHasher[];
+
+  constructor(options: DispatchingHasherOptions) {
+    this.primary = options.primary;
+    this.hashers = [options.primary, ...(options.legacy || [])];
+  }
+
+  async hash(password: string): Promise<string> {
+    return this.primary.hash(password);
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const hasher = this.find(hash);
+    return hasher ? hasher.verify(password, hash) : false;
+  }
+
+  needsRehash(hash: string): boolean {
+    if (this.find(hash) !== this.primary) return true;
+    return this.primary.needsRehash ? this.primary.needsRehash(hash) : false;
+  }
+
+  identify(hash: string): boolean {
+    return this.find(hash) !== undefined;
+  }
+
+  // A primary hasher without `identify()` gets every hash no other hasher claims
+  private find(hash: string): PasswordHasher | undefined {
+    const hasher = this.hashers.find((candidate) => candidate.identify?.(hash));
+    return hasher || (this.primary.identify ? undefined : this.primary);
+  }
+}
@@ -0,0 +1,10 @@
+export { BcryptHasher } from './bcrypt';
+export type { BcryptHasherOptions } from './bcrypt';
+export { ScryptHasher } from './scrypt';
+export type { ScryptHasherOptions } from './scrypt';
+export { Argon2Hasher } from './argon2';
+export type { Argon2HasherOptions, Argon2Module, Argon2Type } from './argon2';
+export { DispatchingHasher } from './dispatch';
+export type { DispatchingHasherOptions } from './dispatch';
+export { parsePhc, formatPhc } from './phc';
+export type { PhcHash } from './phc';
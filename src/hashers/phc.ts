@@ -0,0 +1,66 @@
+// PHC string format: $<id>[$v=<version>][$<param>=<value>(,<param>=<value>)*][$<salt>[$<hash>]]
+// https://github.com/P-H-C/phc-string-format/blob/master/phc-sf-spec.md
+
+export interface PhcHash {
+  id: string;
+  version?: number;
+  params: Record<string, string>;
+  salt?: Buffer;
+  hash?: Buffer;
+}
+
+const ID_PATTERN = /^[a-z0-9-]{1,32}$/;
+
+function toB64(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/=+$/, '');
+}
+
+export function parsePhc(value: string): PhcHash | null {
+  if (!value.startsWith('$')) return null;
+
+  const fields = value.slice(1).split('$');
+  const id = fields.shift();
+  if (!id || !ID_PATTERN.test(id)) return null;
+
+  const parsed: PhcHash = { id, params: {} };
+
+  if (fields[0]?.startsWith('v=')) {
+    const version = Number(fields.shift()!.slice(2));
+    if (!Number.isInteger(version)) return null;
+    parsed.version = version;
+  }
+
+  if (fields[0]?.includes('=')) {
+    for (const pair of fields.shift()!.split(',')) {
+      const [name, param] = pair.split('=');
+      if (!name || param === undefined) return null;
+      parsed.params[name] = param;
+    }
+  }
+
+  if (fields.length > 2) return null;
+  if (fields[0] !== undefined) parsed.salt = Buffer.from(fields[0], 'base64');
+  if (fields[1] !== undefined) parsed.hash = Buffer.from(fields[1], 'base64');
+
+  return parsed;
+}
+
+export function formatPhc(value: PhcHash): string {
+  let result = '$' + value.id;
+  if (value.version !== undefined) {
+    result += `$v=${value.version}`;
+  }
+
+  const params = Object.entries(value.params);
+  if (params.length > 0) {
+    result += '$' + params.map(([name, param]) => `${name}=${param}`).join(',');
+  }
+
+  if (value.salt) {
+    result += '$' + toB64(value.salt);
+    if (value.hash) {
+      result += '$' + toB64(value.hash);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import type { PasswordHasher } from '../types';
+import { formatPhc, parsePhc } from './phc';
+
+export interface ScryptHasherOptions {
+  // log2 of the CPU/memory cost N
+  cost?: number;
+  blockSize?: number;
+  parallelization?: number;
+  keyLength?: number;
+  saltLength?: number;
+}
+
+const DEFAULT_COST = 15;
+const DEFAULT_BLOCK_SIZE = 8;
+const DEFAULT_PARALLELIZATION = 1;
+const DEFAULT_KEY_LENGTH = 32;
+const DEFAULT_SALT_LENGTH = 16;
+
+interface ScryptParams {
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+}
+
+function deriveKey(password: string, salt: Buffer, keyLength: number, params: ScryptParams): Promise<Buffer> {
+  const N = 2 ** params.cost;
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, {
+      N,
+      r: params.blockSize,
+      p: params.parallelization,
+      // Node's default limit (32 MiB) is below what the recommended cost needs
+      maxmem: 256 * N * params.blockSize * params.parallelization,
+    }, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+// Hashes are PHC strings: $scrypt$ln=15,r=8,p=1$<salt>$<hash>
+export class ScryptHasher implements PasswordHasher {
+  private params: ScryptParams;
+  private keyLength: number;
+  private saltLength: number;
+
+  constructor(options: ScryptHasherOptions = {}) {
+    this.params = {
+      cost: options.cost ?? DEFAULT_COST,
+      blockSize: options.blockSize ?? DEFAULT_BLOCK_SIZE,
+      parallelization: options.parallelization ?? DEFAULT_PARALLELIZATION,
+    };
+    this.keyLength = options.keyLength ?? DEFAULT_KEY_LENGTH;
+    this.saltLength = options.saltLength ?? DEFAULT_SALT_LENGTH;
+  }
+
+  async hash(password: string): Promise<string> {
+    const salt = crypto.randomBytes(this.saltLength);
+    const hash = await deriveKey(password, salt, this.keyLength, this.params);
+
+    return formatPhc({
+      id: 'scrypt',
+      params: {
+        ln: String(this.params.cost),
+        r: String(this.params.blockSize),
+        p: String(this.params.parallelization),
+      },
+      salt,
+      hash,
+    });
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const parsed = this.parse(hash);
+    if (!parsed) return false;
+
+    const derived = await deriveKey(password, parsed.salt, parsed.hash.length, parsed.params);
+    return crypto.timingSafeEqual(derived, parsed.hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    const parsed = this.parse(hash);
+    return !parsed ||
+      parsed.params.cost !== this.params.cost ||
+      parsed.params.blockSize !== this.params.blockSize ||
+      parsed.params.parallelization !== this.params.parallelization ||
+      parsed.hash.length !== this.keyLength;
+  }
+
+  identify(hash: string): boolean {
+    return this.parse(hash) !== null;
+  }
+
+  private parse(hash: string): { params: ScryptParams; salt: Buffer; hash: Buffer } | null {
+    const parsed = parsePhc(hash);
+    if (!parsed || parsed.id !== 'scrypt' || !parsed.salt || !parsed.hash || parsed.hash.length === 0) {
+      return null;
+    }
+
+    const params = {
+      cost: Number(parsed.params.ln),
+      blockSize: Number(parsed.params.r),
+      parallelization: Number(parsed.params.p),
+    };
+    if (!Object.values(params).every((value) => Number.isInteger(value) && value > 0)) {
+      return null;
+    }
+
+    return { params, salt: parsed.salt, hash: parsed.hash };
+  }
+}
@@ -1,64 +1,186 @@
 import { AuthEngine } from './core/engine';
 import { JWTStrategy } from './strategies/jwt';
+import type { JWTClaimsConfig } from './strategies/jwt';
+import type { JWTKey } from './strategies/keys';
 import { MemoryAdapter } from './adapters/memory';
-import { createAuthMiddleware } from './middleware/express';
-import type { AuthConfig, DatabaseAdapter, AuthStrategy, ValidationConfig } from './types';
+import { MemoryRevocationStore } from './stores/revocation';
+import { createAuthMiddleware, createExpressHandlers } from './middleware/express';
+import { createAuthRouter } from './middleware/router';
+import type { AuthRouterOptions } from './middleware/router';
+import type {
+  AuthConfig,
+  DatabaseAdapter,
+  AuthStrategy,
+  ValidationConfig,
+  RefreshTokenConfig,
+  RevocationStore,
+  RBACConfig,
+  MiddlewareOptions,
+  AuthCallbacks,
+  PasswordResetConfig,
+  EmailVerificationConfig,
+  TwoFactorConfig,
+  MagicLinkConfig,
+  OAuthConfig,
+  ThrottleConfig,
+  UserCacheConfig,
+  PasswordHasher,
+  LocalizationConfig,
+  AuditLogStore,
+  ApiKeyConfig,
+  LoginSessionConfig,
+  AccountDeletionConfig,
+} from './types';
 
 export * from './types';
 export { AuthEngine } from './core/engine';
 export { JWTStrategy } from './strategies/jwt';
+export type { JWTStrategyConfig, JWTClaimsConfig } from './strategies/jwt';
+export type { JWTKey, JWK, JWKS, AsymmetricAlgorithm } from './strategies/keys';
+export { SessionStrategy } from './strategies/session';
 export { MemoryAdapter } from './adapters/memory';
+export { FileAdapter } from './adapters/file';
+export type { FileAdapterOptions } from './adapters/file';
+export { SQLiteAdapter } from './adapters/sqlite';
+export type { SQLiteAdapterOptions, SQLiteDatabase, SQLiteStatement } from './adapters/sqlite';
+export {
+  UserNotFoundError,
+  DuplicateEmailError,
+  AccountAlreadyLinkedError,
+  isUserNotFoundError,
+  isDuplicateEmailError,
+  isAccountAlreadyLinkedError,
+} from './adapters/errors';
+export { MemoryRevocationStore } from './stores/revocation';
+export { MemoryThrottleStore } from './stores/throttle';
+export { MemorySessionStore } from './stores/session';
+export { MemoryAuditLogStore } from './stores/audit';
+export { AuthEventEmitter } from './core/events';
+export type { AuthEventListener } from './core/events';
 export { createAuthMiddleware } from './middleware/express';
+export { createSessionMiddleware } from './middleware/session';
+export { createAuthRouter } from './middleware/router';
+export type {
+  AuthRouterOptions,
+  AuthRouteOptions,
+  ExpressModule,
+  AuthRouteBeforeHook,
+  AuthRouteAfterHook,
+} from './middleware/router';
+export { fastifyAuthPlugin } from './middleware/fastify';
+export type { FastifyAuthOptions } from './middleware/fastify';
+export { createNextAuthHandlers } from './middleware/nextjs';
+export type { NextAuthOptions, NextRouteHandler, NextAuthenticatedHandler } from './middleware/nextjs';
+export { AUTH_ROUTES, createAuthHandlers, validateBody } from './core/http';
+export type {
+  AuthHttpRequest,
+  AuthHttpResponse,
+  AuthHttpHandler,
+  AuthRouteDefinition,
+  AuthRouteName,
+} from './core/http';
+export { BcryptHasher, ScryptHasher, Argon2Hasher, DispatchingHasher, parsePhc, formatPhc } from './hashers';
+export type {
+  BcryptHasherOptions,
+  ScryptHasherOptions,
+  Argon2HasherOptions,
+  Argon2Module,
+  Argon2Type,
+  DispatchingHasherOptions,
+  PhcHash,
+} from './hashers';
+export { OAuthProvider, OAuthError, GitHubProvider, GoogleProvider } from './oauth';
+export type {
+  OAuthProviderOptions,
+  OAuthProfile,
+  OAuthProfileContext,
+  OAuthTokens,
+  OAuthFetch,
+  PresetProviderOptions,
+} from './oauth';
+export { generateTotp, verifyTotp, generateTotpSecret, buildOtpauthUri } from './core/totp';
+export {
+  AuthErrorCode,
+  DEFAULT_ERROR_MESSAGES,
+  DEFAULT_FIELD_MESSAGES,
+  authFailure,
+  getErrorStatus,
+} from './core/errors';
+export type { AuthFieldErrorCode } from './core/errors';
+export { negotiateLocale } from './core/messages';
 
 export interface QuickAuthOptions {
-  secret: string;
+  secret?: string;
+  keys?: JWTKey[];
+  activeKid?: string;
   adapter?: DatabaseAdapter;
   strategy?: AuthStrategy;
   expiresIn?: string | number;
+  issuer?: string;
+  audience?: string;
   validation?: ValidationConfig;
+  refreshToken?: RefreshTokenConfig;
+  revocationStore?: RevocationStore;
+  rbac?: RBACConfig;
+  callbacks?: AuthCallbacks;
+  passwordReset?: PasswordResetConfig;
+  emailVerification?: EmailVerificationConfig;
+  twoFactor?: TwoFactorConfig;
+  magicLink?: MagicLinkConfig;
+  oauth?: OAuthConfig;
+  throttle?: ThrottleConfig;
+  claims?: JWTClaimsConfig;
+  userCache?: UserCacheConfig;
+  passwordHasher?: PasswordHasher;
+  localization?: LocalizationConfig;
+  auditLog?: AuditLogStore;
+  apiKeys?: ApiKeyConfig;
+  loginSessions?: LoginSessionConfig;
+  accountDeletion?: AccountDeletionConfig;
 }
 
+const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+
 export function quickAuth(options: QuickAuthOptions) {
   const adapter = options.adapter || new MemoryAdapter();
-  const strategyConfig: any = { secret: options.secret };
+  const strategyConfig: any = {
+    secret: options.secret,
+    keys: options.keys,
+    activeKid: options.activeKid,
+    issuer: options.issuer,
+    audience: options.audience,
+    claims: options.claims,
+  };
   if (options.expiresIn !== undefined) {
     strategyConfig.expiresIn = options.expiresIn;
+  } else if (options.refreshToken) {
+    // Access tokens can be short-lived once clients are able to refresh them
+    strategyConfig.expiresIn = DEFAULT_ACCESS_TOKEN_EXPIRES_IN;
   }
   const strategy = options.strategy || new JWTStrategy(strategyConfig);
 
-  const engine = new AuthEngine({
+  return createAuth({
     adapter,
     strategy,
     validation: options.validation,
+    refreshToken: options.refreshToken,
+    revocationStore: options.revocationStore || new MemoryRevocationStore(),
+    rbac: options.rbac,
+    callbacks: options.callbacks,
+    passwordReset: options.passwordReset,
+    emailVerification: options.emailVerification,
+    twoFactor: options.twoFactor,
+    magicLink: options.magicLink,
+    oauth: options.oauth,
+    throttle: options.throttle,
+    userCache: options.userCache,
+    passwordHasher: options.passwordHasher,
+    localization: options.localization,
+    auditLog: options.auditLog,
+    apiKeys: options.apiKeys,
+    loginSessions: options.loginSessions,
+    accountDeletion: options.accountDeletion,
   });
-
-  const middleware = createAuthMiddleware(engine);
-
-  return {
-    engine,
-    middleware: () => middleware.optionalAuth(),
-    requireAuth: () => middleware.requireAuth(),
-    login: () => async (req: any, res: any) => {
-      const result = await engine.login(req.body);
-      res.status(result.success ? 200 : 401).json(result);
-    },
-    register: () => async (req: any, res: any) => {
-      const result = await engine.register(req.body);
-      res.status(result.success ? 201 : 400).json(result);
-    },
-    logout: () => async (req: any, res: any) => {
-      if (req.user) {
-        await engine.logout(req.user);
-      }
-      res.json({ success: true });
-    },
-    me: () => async (req: any, res: any) => {
-      if (!req.user) {
-        return res.status(401).json({ success: false, error: 'Not authenticated' });
-      }
-      res.json({ success: true, user: req.user });
-    },
-  };
 }
 
 export function createAuth(config: AuthConfig) {
@@ -67,27 +189,13 @@ export function createAuth(config: AuthConfig) {
 
   return {
     engine,
-    middleware: () => middleware.optionalAuth(),
-    requireAuth: () => middleware.requireAuth(),
-    login: () => async (req: any, res: any) => {
-      const result = await engine.login(req.body);
-      res.status(result.success ? 200 : 401).json(result);
-    },
-    register: () => async (req: any, res: any) => {
-      const result = await engine.register(req.body);
-      res.status(result.success ? 201 : 400).json(result);
-    },
-    logout: () => async (req: any, res: any) => {
-      if (req.user) {
-        await engine.logout(req.user);
-      }
-      res.json({ success: true });
-    },
-    me: () => async (req: any, res: any) => {
-      if (!req.user) {
-        return res.status(401).json({ success: false, error: 'Not authenticated' });
-      }
-      res.json({ success: true, user: req.user });
-    },
+    events: engine.events,
+    middleware: (options?: MiddlewareOptions) => middleware.optionalAuth(options),
+    requireAuth: (options?: MiddlewareOptions) => middleware.requireAuth(options),
+    requireRole: (...roles: string[]) => middleware.requireRole(...roles),
+    requirePermission: (...permissions: string[]) => middleware.requirePermission(...permissions),
+    requireScope: (...scopes: string[]) => middleware.requireScope(...scopes),
+    router: (options?: AuthRouterOptions) => createAuthRouter(engine, options),
+    ...createExpressHandlers(engine),
   };
 }
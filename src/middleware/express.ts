@@ -1,55 +1,101 @@
-import type { Request, Response, NextFunction } from 'express';
+import type { Response, NextFunction } from 'express';
 import type { AuthEngine } from '../core/engine';
-import type { MiddlewareOptions, User, RequestWithUser } from '../types';
+import type { MiddlewareOptions, RequestWithUser } from '../types';
+import {
+  authenticateToken,
+  createAuthHandlers,
+  getRequestToken,
+  getRequestContext,
+  internalErrorResponse,
+  resolveUser,
+} from '../core/http';
+import type {
+  AuthHttpHandler,
+  AuthHttpRequest,
+  AuthHttpResponse,
+  AuthRouteName,
+} from '../core/http';
+
+export function toAuthHttpRequest(req: RequestWithUser): AuthHttpRequest {
+  const request: AuthHttpRequest = {
+    method: req.method,
+    headers: req.headers,
+    body: req.body,
+    query: req.query,
+    params: req.params,
+    ip: req.ip,
+    user: req.user,
+    apiKey: req.apiKey,
+  };
+  request.token = getRequestToken(request);
+  return request;
+}
+
+export function sendAuthHttpResponse(res: Response, response: AuthHttpResponse): void {
+  if (response.headers) {
+    res.set(response.headers);
+  }
+  res.status(response.status).json(response.body);
+}
+
+export function toExpressHandler(auth: AuthEngine, handler: AuthHttpHandler) {
+  return async (req: RequestWithUser, res: Response): Promise<void> => {
+    const request = toAuthHttpRequest(req);
+    try {
+      sendAuthHttpResponse(res, await handler(request));
+    } catch (error) {
+      sendAuthHttpResponse(res, await internalErrorResponse(auth, request, error));
+    }
+  };
+}
+
+export function createExpressHandlers(auth: AuthEngine) {
+  const handlers = createAuthHandlers(auth);
+  const factories = {} as Record<AuthRouteName, () => ReturnType<typeof toExpressHandler>>;
+
+  for (const name of Object.keys(handlers) as AuthRouteName[]) {
+    factories[name] = () => toExpressHandler(auth, handlers[name]);
+  }
+
+  return factories;
+}
 
 export function createAuthMiddleware(auth: AuthEngine) {
+  const requireAuth = (options: MiddlewareOptions = {}) => {
+    return async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+      const request = toAuthHttpRequest(req);
+      const outcome = await authenticateToken(auth, request.token, options, request);
+      if (!outcome.success) {
+        sendAuthHttpResponse(res, outcome.response);
+        return;
+      }
+
+      req.user = outcome.user;
+      req.apiKey = outcome.apiKey;
+      next();
+    };
+  };
+
   return {
-    requireAuth: (options: MiddlewareOptions = {}) => {
-      return async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
-        try {
-          const authHeader = req.headers.authorization;
-          
-          if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            res.status(401).json({ 
-              success: false, 
-              error: 'Authentication required' 
-            });
-            return;
-          }
+    requireAuth,
 
-          const token = authHeader.substring(7);
-          const result = await auth.verifyToken(token);
+    requireRole: (...roles: string[]) => requireAuth({ roles }),
 
-          if (!result.success || !result.user) {
-            res.status(401).json({ 
-              success: false, 
-              error: result.error || 'Invalid token' 
-            });
-            return;
-          }
+    requirePermission: (...permissions: string[]) => requireAuth({ permissions }),
 
-          req.user = result.user;
-          next();
-        } catch (error) {
-          res.status(401).json({ 
-            success: false, 
-            error: 'Authentication failed' 
-          });
-        }
-      };
-    },
+    requireScope: (...scopes: string[]) => requireAuth({ scopes }),
 
-    optionalAuth: () => {
+    optionalAuth: (options: MiddlewareOptions = {}) => {
       return async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
         try {
-          const authHeader = req.headers.authorization;
+          const token = getRequestToken(toAuthHttpRequest(req));
           
-          if (authHeader && authHeader.startsWith('Bearer ')) {
-            const token = authHeader.substring(7);
-            const result = await auth.verifyToken(token);
+          if (token) {
+            const result = await auth.verifyToken(token, getRequestContext(toAuthHttpRequest(req)));
             
             if (result.success && result.user) {
-              req.user = result.user;
+              req.user = (await resolveUser(auth, result.user, options)) || undefined;
+              req.apiKey = req.user && result.apiKey;
             }
           }
           
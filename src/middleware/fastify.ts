@@ -0,0 +1,141 @@
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  preHandlerAsyncHookHandler,
+} from 'fastify';
+import type { AuthEngine } from '../core/engine';
+import type { ApiKey, MiddlewareOptions, User } from '../types';
+import {
+  AUTH_ROUTES,
+  authenticateToken,
+  createAuthHandlers,
+  getRequestToken,
+  getRequestContext,
+  internalErrorResponse,
+  localizeResponse,
+  resolveUser,
+  validateBody,
+} from '../core/http';
+import type { AuthHttpRequest, AuthHttpResponse } from '../core/http';
+
+export interface FastifyAuthOptions {
+  engine: AuthEngine;
+  prefix?: string;
+  routes?: boolean;
+  // Adds a global preHandler that sets `request.user` whenever a valid token is sent
+  attachUser?: boolean;
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    auth: AuthEngine;
+    requireAuth: (options?: MiddlewareOptions) => preHandlerAsyncHookHandler;
+    requireRole: (...roles: string[]) => preHandlerAsyncHookHandler;
+    requirePermission: (...permissions: string[]) => preHandlerAsyncHookHandler;
+    requireScope: (...scopes: string[]) => preHandlerAsyncHookHandler;
+  }
+
+  interface FastifyRequest {
+    user?: User;
+    apiKey?: ApiKey;
+  }
+}
+
+function toAuthHttpRequest(request: FastifyRequest): AuthHttpRequest {
+  const authRequest: AuthHttpRequest = {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    query: request.query as Record<string, any>,
+    params: request.params as Record<string, string>,
+    ip: request.ip,
+    user: request.user,
+    apiKey: request.apiKey,
+  };
+  authRequest.token = getRequestToken(authRequest);
+  return authRequest;
+}
+
+function send(reply: FastifyReply, response: AuthHttpResponse): FastifyReply {
+  if (response.headers) {
+    reply.headers(response.headers);
+  }
+  return reply.code(response.status).send(response.body);
+}
+
+export async function fastifyAuthPlugin(fastify: FastifyInstance, options: FastifyAuthOptions): Promise<void> {
+  const auth = options.engine;
+  const handlers = createAuthHandlers(auth);
+  const prefix = options.prefix ?? '/auth';
+
+  const requireAuth = (middlewareOptions: MiddlewareOptions = {}): preHandlerAsyncHookHandler => {
+    return async function (request, reply) {
+      const authRequest = toAuthHttpRequest(request);
+      const outcome = await authenticateToken(auth, authRequest.token, middlewareOptions, authRequest);
+      if (!outcome.success) {
+        return send(reply, outcome.response);
+      }
+      request.user = outcome.user;
+      request.apiKey = outcome.apiKey;
+    };
+  };
+
+  const optionalAuth: preHandlerAsyncHookHandler = async function (request) {
+    const authRequest = toAuthHttpRequest(request);
+    if (!authRequest.token) return;
+
+    try {
+      const result = await auth.verifyToken(authRequest.token, getRequestContext(authRequest));
+      if (result.success && result.user) {
+        request.user = (await resolveUser(auth, result.user, {})) || undefined;
+        request.apiKey = request.user && result.apiKey;
+      }
+    } catch (error) {
+      // Optional auth never blocks the request
+    }
+  };
+
+  fastify.decorate('auth', auth);
+  fastify.decorate('requireAuth', requireAuth);
+  fastify.decorate('requireRole', (...roles: string[]) => requireAuth({ roles }));
+  fastify.decorate('requirePermission', (...permissions: string[]) => requireAuth({ permissions }));
+  fastify.decorate('requireScope', (...scopes: string[]) => requireAuth({ scopes }));
+  fastify.decorateRequest('user', undefined);
+  fastify.decorateRequest('apiKey', undefined);
+
+  const attachUser = options.attachUser ?? true;
+  if (attachUser) {
+    fastify.addHook('preHandler', optionalAuth);
+  }
+
+  if (options.routes === false) return;
+
+  for (const route of AUTH_ROUTES) {
+    const preHandler = route.auth === 'required'
+      ? requireAuth()
+      : route.auth === 'optional' && !attachUser ? optionalAuth : undefined;
+
+    fastify.route({
+      method: route.method,
+      url: prefix + route.path,
+      preHandler,
+      handler: async (request, reply) => {
+        const authRequest = toAuthHttpRequest(request);
+        try {
+          const invalid = validateBody(route, authRequest.body);
+          if (invalid) {
+            return send(reply, localizeResponse(auth, authRequest, invalid));
+          }
+          return send(reply, await handlers[route.name](authRequest));
+        } catch (error) {
+          return send(reply, await internalErrorResponse(auth, authRequest, error));
+        }
+      },
+    });
+  }
+}
+
+// Same effect as wrapping with fastify-plugin: decorators and hooks reach the parent scope
+(fastifyAuthPlugin as any)[Symbol.for('skip-override')] = true;
+(fastifyAuthPlugin as any)[Symbol.for('fastify.display-name')] = 'quick-auth';
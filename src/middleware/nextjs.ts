@@ -0,0 +1,179 @@
+import type { AuthEngine } from '../core/engine';
+import type { ApiKey, MiddlewareOptions, User } from '../types';
+import { AuthErrorCode } from '../core/errors';
+import {
+  AUTH_ROUTES,
+  authenticateToken,
+  createAuthHandlers,
+  failure,
+  getRequestToken,
+  getRequestContext,
+  internalErrorResponse,
+  localizeResponse,
+  matchPath,
+  resolveUser,
+  validateBody,
+} from '../core/http';
+import type { AuthHttpRequest, AuthHttpResponse, AuthRouteDefinition, AuthRouteName } from '../core/http';
+
+export interface NextAuthOptions {
+  // Path the catch-all route is mounted at, e.g. app/api/auth/[...auth]/route.ts
+  basePath?: string;
+  // Read the client IP from X-Forwarded-For / X-Real-IP; only enable behind a proxy that sets them
+  trustProxy?: boolean;
+}
+
+export type NextRouteHandler<C = any> = (request: Request, context?: C) => Promise<Response>;
+
+export type NextAuthenticatedHandler<C = any> = (
+  request: Request,
+  // `apiKey` is set when the request authenticated with an API key
+  context: C & { user: User; apiKey?: ApiKey }
+) => Response | Promise<Response>;
+
+// Headers only, so the body stays unread for wrapped handlers
+function toHeaderRequest(request: Request, trustProxy: boolean): AuthHttpRequest {
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, key) => {
+    headers[key.toLowerCase()] = value;
+  });
+
+  const headerRequest: AuthHttpRequest = { method: request.method, headers };
+  if (trustProxy) {
+    const forwarded = headers['x-forwarded-for'];
+    headerRequest.ip = forwarded ? forwarded.split(',')[0].trim() : headers['x-real-ip'];
+  }
+  headerRequest.token = getRequestToken(headerRequest);
+  return headerRequest;
+}
+
+async function toAuthHttpRequest(request: Request, trustProxy: boolean): Promise<AuthHttpRequest> {
+  let body: any;
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    body = await request.json().catch(() => undefined);
+  }
+
+  return {
+    ...toHeaderRequest(request, trustProxy),
+    body,
+    query: Object.fromEntries(new URL(request.url).searchParams),
+  };
+}
+
+function toResponse(response: AuthHttpResponse): Response {
+  return new Response(JSON.stringify(response.body), {
+    status: response.status,
+    headers: { 'Content-Type': 'application/json', ...response.headers },
+  });
+}
+
+function trimSlash(path: string): string {
+  return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+export function createNextAuthHandlers(auth: AuthEngine, options: NextAuthOptions = {}) {
+  const handlers = createAuthHandlers(auth);
+  const basePath = trimSlash(options.basePath ?? '/api/auth');
+  const trustProxy = options.trustProxy ?? false;
+
+  const attachUser = async (request: AuthHttpRequest, required: boolean): Promise<AuthHttpResponse | null> => {
+    if (required) {
+      const outcome = await authenticateToken(auth, request.token, {}, request);
+      if (!outcome.success) return outcome.response;
+      request.user = outcome.user;
+      request.apiKey = outcome.apiKey;
+      return null;
+    }
+
+    if (request.token) {
+      try {
+        const result = await auth.verifyToken(request.token, getRequestContext(request));
+        if (result.success && result.user) {
+          request.user = (await resolveUser(auth, result.user, {})) || undefined;
+          request.apiKey = request.user && result.apiKey;
+        }
+      } catch (error) {
+        // Optional auth never blocks the request
+      }
+    }
+    return null;
+  };
+
+  // Same checks and error handling as the Express router
+  const handle = async (route: AuthRouteDefinition, authRequest: AuthHttpRequest): Promise<Response> => {
+    try {
+      const rejected = await attachUser(authRequest, route.auth === 'required');
+      if (rejected) {
+        return toResponse(rejected);
+      }
+
+      const invalid = validateBody(route, authRequest.body);
+      if (invalid) {
+        return toResponse(localizeResponse(auth, authRequest, invalid));
+      }
+      return toResponse(await handlers[route.name](authRequest));
+    } catch (error) {
+      return toResponse(await internalErrorResponse(auth, authRequest, error));
+    }
+  };
+
+  const dispatch: NextRouteHandler = async (request) => {
+    const pathname = trimSlash(new URL(request.url).pathname);
+    let params: Record<string, string> | null = null;
+    const route = AUTH_ROUTES.find((candidate) => {
+      if (candidate.method !== request.method) return false;
+      params = matchPath(basePath + candidate.path, pathname);
+      return params !== null;
+    });
+    if (!route || !params) {
+      return toResponse(localizeResponse(auth, toHeaderRequest(request, trustProxy), failure(AuthErrorCode.NOT_FOUND)));
+    }
+
+    const authRequest = await toAuthHttpRequest(request, trustProxy);
+    authRequest.params = params;
+    return handle(route, authRequest);
+  };
+
+  // Single-route handler for apps that prefer one file per endpoint; path params come from
+  // the Next.js route context, e.g. app/api/auth/oauth/[provider]/route.ts
+  const route = (name: AuthRouteName): NextRouteHandler<{ params?: Record<string, string> }> => {
+    const definitions = AUTH_ROUTES.filter((candidate) => candidate.name === name);
+    return async (request, context) => {
+      // Link routes (verifyEmail, consumeMagicLink) are served on both GET and POST with different bodies
+      const definition = definitions.find((candidate) => candidate.method === request.method) ?? definitions[0];
+      const authRequest = await toAuthHttpRequest(request, trustProxy);
+      authRequest.params = context?.params;
+      return handle(definition, authRequest);
+    };
+  };
+
+  const withAuth = <C = any>(
+    handler: NextAuthenticatedHandler<C>,
+    middlewareOptions: MiddlewareOptions = {}
+  ): NextRouteHandler<C> => {
+    return async (request, context) => {
+      const headerRequest = toHeaderRequest(request, trustProxy);
+      const outcome = await authenticateToken(auth, headerRequest.token, middlewareOptions, headerRequest);
+      if (!outcome.success) {
+        return toResponse(outcome.response);
+      }
+      return handler(request, { ...(context as C), user: outcome.user, apiKey: outcome.apiKey });
+    };
+  };
+
+  const getUser = async (request: Request): Promise<User | null> => {
+    const headerRequest = toHeaderRequest(request, trustProxy);
+    const outcome = await authenticateToken(auth, headerRequest.token, {}, headerRequest);
+    return outcome.success ? outcome.user : null;
+  };
+
+  return {
+    GET: dispatch,
+    POST: dispatch,
+    PATCH: dispatch,
+    DELETE: dispatch,
+    route,
+    withAuth,
+    getUser,
+  };
+}
@@ -0,0 +1,140 @@
+import { createRequire } from 'module';
+import type { RequestHandler, Response, Router, json } from 'express';
+import type { AuthEngine } from '../core/engine';
+import type { RequestWithUser } from '../types';
+import { AuthErrorCode } from '../core/errors';
+import {
+  AUTH_ROUTES,
+  createAuthHandlers,
+  failure,
+  internalErrorResponse,
+  localizeResponse,
+  validateBody,
+} from '../core/http';
+import type {
+  AuthHttpRequest,
+  AuthHttpResponse,
+  AuthRouteDefinition,
+  AuthRouteName,
+} from '../core/http';
+import { createAuthMiddleware, sendAuthHttpResponse, toAuthHttpRequest } from './express';
+
+// Returning a response from a before hook skips the handler
+export type AuthRouteBeforeHook = (
+  request: AuthHttpRequest,
+  route: AuthRouteDefinition
+) => AuthHttpResponse | void | Promise<AuthHttpResponse | void>;
+
+// Returning a response from an after hook replaces the one being sent
+export type AuthRouteAfterHook = (
+  response: AuthHttpResponse,
+  request: AuthHttpRequest,
+  route: AuthRouteDefinition
+) => AuthHttpResponse | void | Promise<AuthHttpResponse | void>;
+
+export interface AuthRouteOptions {
+  enabled?: boolean;
+  before?: AuthRouteBeforeHook;
+  after?: AuthRouteAfterHook;
+}
+
+// The parts of the `express` package the router uses; pass `require('express')`
+export interface ExpressModule {
+  Router: typeof Router;
+  json: typeof json;
+}
+
+export interface AuthRouterOptions {
+  prefix?: string;
+  routes?: Partial<Record<AuthRouteName, boolean | AuthRouteOptions>>;
+  before?: AuthRouteBeforeHook;
+  after?: AuthRouteAfterHook;
+  bodyLimit?: string | number;
+  // Defaults to the `express` package installed next to the app
+  express?: ExpressModule;
+}
+
+function resolveRouteOptions(value: boolean | AuthRouteOptions | undefined): AuthRouteOptions {
+  if (value === undefined || value === true) return { enabled: true };
+  if (value === false) return { enabled: false };
+  return { enabled: true, ...value };
+}
+
+// Loaded lazily so Fastify and Next.js users don't need Express installed
+function loadExpress(): ExpressModule {
+  return createRequire(__filename)('express') as ExpressModule;
+}
+
+function bodyError(error: any): AuthHttpResponse {
+  if (error?.type === 'entity.too.large') {
+    return failure(AuthErrorCode.PAYLOAD_TOO_LARGE);
+  }
+  if (error?.type === 'entity.parse.failed') {
+    return failure(AuthErrorCode.INVALID_REQUEST, { message: 'Invalid JSON body' });
+  }
+  return failure(AuthErrorCode.INVALID_REQUEST, { message: 'Invalid request body' });
+}
+
+export function createAuthRouter(auth: AuthEngine, options: AuthRouterOptions = {}): Router {
+  const express = options.express ?? loadExpress();
+
+  const router = express.Router();
+  const handlers = createAuthHandlers(auth);
+  const middleware = createAuthMiddleware(auth);
+  const prefix = options.prefix ?? '/auth';
+  const jsonParser = express.json({ limit: options.bodyLimit ?? '100kb' });
+
+  const parseJson: RequestHandler = (req, res, next) => {
+    jsonParser(req, res, (error?: any) => {
+      if (error) {
+        sendAuthHttpResponse(res, localizeResponse(auth, toAuthHttpRequest(req), bodyError(error)));
+        return;
+      }
+      next();
+    });
+  };
+
+  for (const route of AUTH_ROUTES) {
+    const routeOptions = resolveRouteOptions(options.routes?.[route.name]);
+    if (!routeOptions.enabled) continue;
+
+    const before = [options.before, routeOptions.before].filter(Boolean) as AuthRouteBeforeHook[];
+    const after = [routeOptions.after, options.after].filter(Boolean) as AuthRouteAfterHook[];
+
+    const handle = async (req: RequestWithUser, res: Response): Promise<void> => {
+      const request = toAuthHttpRequest(req);
+      try {
+        const invalid = validateBody(route, request.body);
+        let response = invalid && localizeResponse(auth, request, invalid);
+
+        for (const hook of before) {
+          if (response) break;
+          response = (await hook(request, route)) || null;
+        }
+
+        if (!response) {
+          response = await handlers[route.name](request);
+        }
+
+        for (const hook of after) {
+          response = (await hook(response, request, route)) || response;
+        }
+
+        sendAuthHttpResponse(res, response);
+      } catch (error) {
+        sendAuthHttpResponse(res, await internalErrorResponse(auth, request, error));
+      }
+    };
+
+    const chain: RequestHandler[] = [];
+    if (route.method !== 'GET') chain.push(parseJson);
+    if (route.auth === 'required') chain.push(middleware.requireAuth() as RequestHandler);
+    if (route.auth === 'optional') chain.push(middleware.optionalAuth() as RequestHandler);
+
+    const path = prefix + route.path;
+    const method = route.method.toLowerCase() as 'get' | 'post' | 'patch' | 'delete';
+    router[method](path, ...chain, handle as RequestHandler);
+  }
+
+  return router;
+}
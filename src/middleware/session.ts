@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import type { Response, NextFunction, CookieOptions } from 'express';
+import type { AuthEngine } from '../core/engine';
+import type { AuthResult, MiddlewareOptions, RequestWithUser } from '../types';
+import { generateOpaqueToken } from '../core/tokens';
+import { parseDuration } from '../core/duration';
+import { AuthErrorCode, getErrorStatus } from '../core/errors';
+import {
+  OAUTH_STATE_COOKIE,
+  authenticateToken,
+  completeOAuthRequest,
+  createAuthHandlers,
+  failure,
+  getRequestContext,
+  localizeResponse,
+  resolveUser,
+} from '../core/http';
+import type { AuthHttpResponse } from '../core/http';
+import { parseCookies } from './cookies';
+import { sendAuthHttpResponse, toAuthHttpRequest } from './express';
+
+export interface SessionCookieOptions {
+  secure?: boolean;
+  sameSite?: 'lax' | 'strict' | 'none';
+  domain?: string;
+  path?: string;
+  maxAge?: string | number;
+}
+
+export interface SessionMiddlewareOptions {
+  cookieName?: string;
+  csrfCookieName?: string;
+  csrfHeaderName?: string;
+  cookie?: SessionCookieOptions;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export function createSessionMiddleware(auth: AuthEngine, options: SessionMiddlewareOptions = {}) {
+  const cookieName = options.cookieName || 'qa_session';
+  const csrfCookieName = options.csrfCookieName || 'qa_csrf';
+  const csrfHeaderName = (options.csrfHeaderName || 'x-csrf-token').toLowerCase();
+
+  const baseCookie: CookieOptions = {
+    secure: options.cookie?.secure ?? process.env.NODE_ENV === 'production',
+    sameSite: options.cookie?.sameSite || 'lax',
+    path: options.cookie?.path || '/',
+  };
+  if (options.cookie?.domain) baseCookie.domain = options.cookie.domain;
+  if (options.cookie?.maxAge !== undefined) baseCookie.maxAge = parseDuration(options.cookie.maxAge);
+
+  const handlers = createAuthHandlers(auth);
+
+  const getSessionToken = (req: RequestWithUser): string | undefined => {
+    return parseCookies(req.headers.cookie)[cookieName];
+  };
+
+  // Double-submit: a cross-site form can send the cookie but can't read it to copy into the header
+  const hasValidCsrfToken = (req: RequestWithUser): boolean => {
+    if (SAFE_METHODS.includes(String(req.method).toUpperCase())) {
+      return true;
+    }
+
+    const cookieToken = parseCookies(req.headers.cookie)[csrfCookieName];
+    const headerToken = req.headers[csrfHeaderName];
+    if (!cookieToken || typeof headerToken !== 'string') {
+      return false;
+    }
+
+    const a = Buffer.from(cookieToken);
+    const b = Buffer.from(headerToken);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  };
+
+  const startSession = (res: Response, token: string): string => {
+    const csrfToken = generateOpaqueToken();
+    res.cookie(cookieName, token, { ...baseCookie, httpOnly: true });
+    res.cookie(csrfCookieName, csrfToken, { ...baseCookie, httpOnly: false });
+    return csrfToken;
+  };
+
+  // Moves the token from a successful login/register response into the session cookie
+  const sendWithSession = (res: Response, response: AuthHttpResponse): void => {
+    const result: AuthResult = response.body;
+    if (!result.success || !result.token) {
+      sendAuthHttpResponse(res, response);
+      return;
+    }
+
+    const csrfToken = startSession(res, result.token);
+
+    // The session lives in an HttpOnly cookie; keep it out of reach of page scripts
+    const body: AuthResult = { ...result };
+    delete body.token;
+    sendAuthHttpResponse(res, { ...response, body: { ...body, csrfToken } });
+  };
+
+  const endSession = (res: Response): void => {
+    res.clearCookie(cookieName, { ...baseCookie, httpOnly: true });
+    res.clearCookie(csrfCookieName, { ...baseCookie, httpOnly: false });
+  };
+
+  const requireAuth = (middlewareOptions: MiddlewareOptions = {}) => {
+    return async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+      const token = getSessionToken(req);
+      const request = toAuthHttpRequest(req);
+      if (token && !hasValidCsrfToken(req)) {
+        sendAuthHttpResponse(res, localizeResponse(auth, request, failure(AuthErrorCode.CSRF_INVALID)));
+        return;
+      }
+
+      const outcome = await authenticateToken(auth, token, middlewareOptions, request);
+      if (!outcome.success) {
+        if (token && outcome.response.status === 401) {
+          endSession(res);
+        }
+        sendAuthHttpResponse(res, outcome.response);
+        return;
+      }
+
+      req.user = outcome.user;
+      next();
+    };
+  };
+
+  return {
+    requireAuth,
+
+    requireRole: (...roles: string[]) => requireAuth({ roles }),
+
+    requirePermission: (...permissions: string[]) => requireAuth({ permissions }),
+
+    optionalAuth: (middlewareOptions: MiddlewareOptions = {}) => {
+      return async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+        try {
+          const token = getSessionToken(req);
+          if (token && hasValidCsrfToken(req)) {
+            const result = await auth.verifyToken(token, getRequestContext(toAuthHttpRequest(req)));
+            if (result.success && result.user) {
+              req.user = (await resolveUser(auth, result.user, middlewareOptions)) || undefined;
+            }
+          }
+          next();
+        } catch (error) {
+          next();
+        }
+      };
+    },
+
+    csrfProtection: () => {
+      return (req: RequestWithUser, res: Response, next: NextFunction): void => {
+        if (!hasValidCsrfToken(req)) {
+          sendAuthHttpResponse(res, localizeResponse(auth, toAuthHttpRequest(req), failure(AuthErrorCode.CSRF_INVALID)));
+          return;
+        }
+        next();
+      };
+    },
+
+    login: () => async (req: RequestWithUser, res: Response) => {
+      sendWithSession(res, await handlers.login(toAuthHttpRequest(req)));
+    },
+
+    register: () => async (req: RequestWithUser, res: Response) => {
+      sendWithSession(res, await handlers.register(toAuthHttpRequest(req)));
+    },
+
+    // Mount at the provider's redirect URI; the browser lands back in the app at `redirectTo` (or `/`)
+    oauthCallback: () => async (req: RequestWithUser, res: Response) => {
+      const request = toAuthHttpRequest(req);
+      const result = await completeOAuthRequest(auth, request);
+      res.clearCookie(OAUTH_STATE_COOKIE, { path: '/' });
+      if (result.success && !result.twoFactorRequired) {
+        if (result.token) startSession(res, result.token);
+        res.redirect(302, result.redirectTo || '/');
+        return;
+      }
+      const status = result.success ? 200 : getErrorStatus(result.code);
+      sendAuthHttpResponse(res, localizeResponse(auth, request, { status, body: result }));
+    },
+
+    logout: () => async (req: RequestWithUser, res: Response) => {
+      const response = await handlers.logout({
+        ...toAuthHttpRequest(req),
+        token: getSessionToken(req),
+      });
+      endSession(res);
+      sendAuthHttpResponse(res, response);
+    },
+  };
+}
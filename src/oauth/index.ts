@@ -0,0 +1,10 @@
+export { OAuthProvider, OAuthError, generateCodeVerifier, codeChallengeFor } from './provider';
+export type {
+  OAuthProviderOptions,
+  OAuthProfile,
+  OAuthProfileContext,
+  OAuthTokens,
+  OAuthFetch,
+} from './provider';
+export { GitHubProvider, GoogleProvider } from './providers';
+export type { PresetProviderOptions } from './providers';
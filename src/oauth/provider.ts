@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { resolveJWK, verifyEdDSA } from '../strategies/keys';
+import type { JWKS, ResolvedKey } from '../strategies/keys';
+import { parseDuration } from '../core/duration';
+
+export type OAuthFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface OAuthTokens {
+  accessToken: string;
+  tokenType?: string;
+  refreshToken?: string;
+  idToken?: string;
+  expiresIn?: number;
+  scope?: string;
+}
+
+export interface OAuthProfile {
+  // The provider's stable account id (`sub` for OIDC)
+  id: string;
+  email?: string;
+  emailVerified?: boolean;
+  name?: string;
+  avatarUrl?: string;
+  raw: Record<string, any>;
+}
+
+export interface OAuthProfileContext {
+  tokens: OAuthTokens;
+  // Verified id_token claims, for OIDC providers
+  claims?: jwt.JwtPayload;
+  fetchJson: (url: string, init?: RequestInit) => Promise<any>;
+}
+
+export interface OAuthProviderOptions {
+  id: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl?: string;
+  // Set both to treat the provider as OIDC: the id_token's signature, iss, aud and nonce are checked
+  issuer?: string;
+  jwksUrl?: string;
+  scopes?: string[];
+  // Defaults to true; only turn off for providers that reject code_challenge
+  pkce?: boolean;
+  authorizationParams?: Record<string, string>;
+  // Maps the provider's response to a profile; defaults to standard OIDC claims or the userinfo response
+  profile?: (context: OAuthProfileContext) => OAuthProfile | Promise<OAuthProfile>;
+  // How long fetched signing keys are reused
+  jwksCacheTtl?: string | number;
+  fetch?: OAuthFetch;
+}
+
+export class OAuthError extends Error {
+  code: 'OAUTH_FAILED' | 'OAUTH_ID_TOKEN_INVALID';
+
+  constructor(code: OAuthError['code'], message: string) {
+    super(message);
+    this.name = 'OAuthError';
+    this.code = code;
+  }
+}
+
+const DEFAULT_JWKS_CACHE_TTL = '1h';
+
+export class OAuthProvider {
+  readonly id: string;
+  protected options: OAuthProviderOptions;
+  private jwks?: { keys: ResolvedKey[]; fetchedAt: number };
+
+  constructor(options: OAuthProviderOptions) {
+    if (!options.id || !options.clientId || !options.redirectUri) {
+      throw new Error('OAuth providers need an id, a clientId and a redirectUri');
+    }
+    if (!!options.issuer !== !!options.jwksUrl) {
+      throw new Error(`OAuth provider "${options.id}" needs both issuer and jwksUrl for OIDC`);
+    }
+
+    this.id = options.id;
+    this.options = { pkce: true, ...options };
+  }
+
+  get isOidc(): boolean {
+    return !!this.options.jwksUrl;
+  }
+
+  get usesPkce(): boolean {
+    return this.options.pkce !== false;
+  }
+
+  buildAuthorizationUrl(params: { state: string; codeChallenge?: string; nonce?: string }): string {
+    const url = new URL(this.options.authorizationUrl);
+    const query: Record<string, string | undefined> = {
+      response_type: 'code',
+      client_id: this.options.clientId,
+      redirect_uri: this.options.redirectUri,
+      scope: this.options.scopes?.join(' '),
+      state: params.state,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: params.codeChallenge ? 'S256' : undefined,
+      nonce: params.nonce,
+      ...this.options.authorizationParams,
+    };
+
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  async exchangeCode(code: string, codeVerifier?: string): Promise<OAuthTokens> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.options.redirectUri,
+      client_id: this.options.clientId,
+    });
+    if (this.options.clientSecret) body.set('client_secret', this.options.clientSecret);
+    if (codeVerifier) body.set('code_verifier', codeVerifier);
+
+    const data = await this.fetchJson(this.options.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+    });
+    // Some providers (GitHub) report errors with a 200 status
+    if (data.error || typeof data.access_token !== 'string') {
+      throw new OAuthError('OAUTH_FAILED', `Token exchange failed: ${data.error || 'no access_token'}`);
+    }
+
+    return {
+      accessToken: data.access_token,
+      tokenType: data.token_type,
+      refreshToken: data.refresh_token,
+      idToken: data.id_token,
+      expiresIn: data.expires_in,
+      scope: data.scope,
+    };
+  }
+
+  async getProfile(tokens: OAuthTokens, nonce?: string): Promise<OAuthProfile> {
+    let claims: jwt.JwtPayload | undefined;
+    if (this.isOidc) {
+      if (!tokens.idToken) {
+        throw new OAuthError('OAUTH_ID_TOKEN_INVALID', 'Provider returned no id_token');
+      }
+      claims = await this.verifyIdToken(tokens.idToken, nonce);
+    }
+
+    const context: OAuthProfileContext = {
+      tokens,
+      claims,
+      fetchJson: (url, init) => this.fetchJson(url, init),
+    };
+    if (this.options.profile) {
+      return this.options.profile(context);
+    }
+    return this.defaultProfile(context);
+  }
+
+  protected async defaultProfile(context: OAuthProfileContext): Promise<OAuthProfile> {
+    let data: Record<string, any> = context.claims || {};
+    if (this.options.userInfoUrl) {
+      data = { ...data, ...(await this.fetchJson(this.options.userInfoUrl, this.bearer(context.tokens))) };
+    }
+    if (!data.sub) {
+      throw new OAuthError('OAUTH_FAILED', 'Provider profile has no subject');
+    }
+
+    return {
+      id: String(data.sub),
+      email: data.email,
+      emailVerified: data.email_verified === true || data.email_verified === 'true',
+      name: data.name,
+      avatarUrl: data.picture,
+      raw: data,
+    };
+  }
+
+  protected bearer(tokens: OAuthTokens): RequestInit {
+    return { headers: { Authorization: `Bearer ${tokens.accessToken}` } };
+  }
+
+  protected async fetchJson(url: string, init: RequestInit = {}): Promise<any> {
+    const fetchFn = this.options.fetch || fetch;
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        ...init,
+        headers: { Accept: 'application/json', ...(init.headers as Record<string, string>) },
+      });
+    } catch (error) {
+      throw new OAuthError('OAUTH_FAILED', `Request to ${url} failed: ${(error as Error).message}`);
+    }
+
+    const text = await response.text();
+    let data: any;
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch (error) {
+      throw new OAuthError('OAUTH_FAILED', `${url} did not return JSON`);
+    }
+    if (!response.ok && !data.error) {
+      throw new OAuthError('OAUTH_FAILED', `${url} answered ${response.status}`);
+    }
+    return data;
+  }
+
+  private async verifyIdToken(idToken: string, nonce?: string): Promise<jwt.JwtPayload> {
+    const header = jwt.decode(idToken, { complete: true })?.header;
+    if (!header?.kid) {
+      throw new OAuthError('OAUTH_ID_TOKEN_INVALID', 'id_token has no kid');
+    }
+
+    const key = await this.getSigningKey(header.kid);
+    // The header's alg must match the key, otherwise a public key could be abused as an HMAC secret
+    if (!key || header.alg !== key.algorithm) {
+      throw new OAuthError('OAUTH_ID_TOKEN_INVALID', 'id_token signed with an unknown key');
+    }
+
+    const options = { issuer: this.options.issuer, audience: this.options.clientId };
+    let claims: jwt.JwtPayload;
+    try {
+      claims = key.algorithm === 'EdDSA'
+        ? verifyEdDSA(idToken, key, options)
+        : jwt.verify(idToken, key.publicKey, { ...options, algorithms: [key.algorithm] }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new OAuthError('OAUTH_ID_TOKEN_INVALID', `id_token rejected: ${(error as Error).message}`);
+    }
+
+    if (nonce && claims.nonce !== nonce) {
+      throw new OAuthError('OAUTH_ID_TOKEN_INVALID', 'id_token nonce mismatch');
+    }
+    return claims;
+  }
+
+  // Refetches once on an unknown kid, so key rotation at the provider is picked up
+  private async getSigningKey(kid: string): Promise<ResolvedKey | undefined> {
+    const ttl = parseDuration(this.options.jwksCacheTtl ?? DEFAULT_JWKS_CACHE_TTL);
+    const fresh = this.jwks && Date.now() - this.jwks.fetchedAt < ttl;
+
+    let key = fresh ? this.jwks!.keys.find((candidate) => candidate.kid === kid) : undefined;
+    if (!key) {
+      const document: JWKS = await this.fetchJson(this.options.jwksUrl!);
+      const keys = (document.keys || [])
+        .filter((jwk) => jwk.kid && (!jwk.use || jwk.use === 'sig'))
+        .map((jwk) => resolveJWK(jwk));
+      this.jwks = { keys, fetchedAt: Date.now() };
+      key = keys.find((candidate) => candidate.kid === kid);
+    }
+    return key;
+  }
+}
+
+export function generateCodeVerifier(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function codeChallengeFor(verifier: string): string {
+  return crypto.createHash('sha256').update(verifier).digest('base64url');
+}
@@ -0,0 +1,62 @@
+import { OAuthError, OAuthProvider } from './provider';
+import type { OAuthProfile, OAuthProfileContext, OAuthProviderOptions } from './provider';
+
+export type PresetProviderOptions = Omit<
+  OAuthProviderOptions,
+  'id' | 'authorizationUrl' | 'tokenUrl' | 'userInfoUrl' | 'issuer' | 'jwksUrl'
+> & { id?: string };
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+// GitHub is plain OAuth2: no id_token, and private emails need a second request
+export class GitHubProvider extends OAuthProvider {
+  constructor(options: PresetProviderOptions) {
+    super({
+      id: 'github',
+      scopes: ['read:user', 'user:email'],
+      ...options,
+      authorizationUrl: 'https://github.com/login/oauth/authorize',
+      tokenUrl: 'https://github.com/login/oauth/access_token',
+      userInfoUrl: 'https://api.github.com/user',
+    });
+  }
+
+  protected async defaultProfile(context: OAuthProfileContext): Promise<OAuthProfile> {
+    const user = await context.fetchJson(this.options.userInfoUrl!, this.bearer(context.tokens));
+    if (!user.id) {
+      throw new OAuthError('OAUTH_FAILED', 'GitHub profile has no id');
+    }
+
+    const emails: GitHubEmail[] = await context
+      .fetchJson('https://api.github.com/user/emails', this.bearer(context.tokens))
+      .catch(() => []);
+    const primary = Array.isArray(emails) ? emails.find((entry) => entry.primary) : undefined;
+
+    return {
+      id: String(user.id),
+      email: primary?.email || user.email || undefined,
+      emailVerified: primary?.verified ?? false,
+      name: user.name || user.login,
+      avatarUrl: user.avatar_url,
+      raw: user,
+    };
+  }
+}
+
+export class GoogleProvider extends OAuthProvider {
+  constructor(options: PresetProviderOptions) {
+    super({
+      id: 'google',
+      scopes: ['openid', 'email', 'profile'],
+      ...options,
+      authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenUrl: 'https://oauth2.googleapis.com/token',
+      issuer: 'https://accounts.google.com',
+      jwksUrl: 'https://www.googleapis.com/oauth2/v3/certs',
+    });
+  }
+}
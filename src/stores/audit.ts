@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import type { AuditLogEntry, AuditLogQuery, AuditLogStore } from '../types';
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_QUERY_LIMIT = 50;
+
+export class MemoryAuditLogStore implements AuditLogStore {
+  // Oldest first; the oldest entries are dropped once `maxEntries` is reached
+  private entries: AuditLogEntry[] = [];
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async record(entry: Omit<AuditLogEntry, 'id'>): Promise<AuditLogEntry> {
+    const stored: AuditLogEntry = { id: crypto.randomUUID(), ...entry };
+    this.entries.push(stored);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    return { ...stored };
+  }
+
+  async query(query: AuditLogQuery = {}): Promise<AuditLogEntry[]> {
+    const email = query.email?.toLowerCase();
+    const matches = this.entries.filter((entry) => {
+      if (query.userId && entry.userId !== query.userId) return false;
+      if (email && entry.email?.toLowerCase() !== email) return false;
+      if (query.types && !query.types.includes(entry.type)) return false;
+      if (query.since && entry.createdAt < query.since) return false;
+      if (query.until && entry.createdAt > query.until) return false;
+      return true;
+    });
+
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    return matches
+      .reverse()
+      .slice(offset, offset + limit)
+      .map((entry) => ({ ...entry }));
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
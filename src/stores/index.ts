@@ -0,0 +1,4 @@
+export { MemoryRevocationStore } from './revocation';
+export { MemoryThrottleStore } from './throttle';
+export { MemorySessionStore } from './session';
+export { MemoryAuditLogStore } from './audit';
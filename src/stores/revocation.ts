@@ -0,0 +1,42 @@
+import type { RevocationStore } from '../types';
+
+export class MemoryRevocationStore implements RevocationStore {
+  private revokedTokens: Map<string, number> = new Map();
+  private userCutoffs: Map<string, Date> = new Map();
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    this.prune();
+    this.revokedTokens.set(jti, expiresAt.getTime());
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.revokedTokens.get(jti);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  async revokeUserTokens(userId: string, before: Date): Promise<void> {
+    const current = this.userCutoffs.get(userId);
+    if (!current || current < before) {
+      this.userCutoffs.set(userId, before);
+    }
+  }
+
+  async getUserTokensRevokedBefore(userId: string): Promise<Date | null> {
+    return this.userCutoffs.get(userId) || null;
+  }
+
+  clear(): void {
+    this.revokedTokens.clear();
+    this.userCutoffs.clear();
+  }
+
+  // Revoked tokens only need to be remembered until they would have expired anyway
+  private prune(): void {
+    const now = Date.now();
+    for (const [jti, expiresAt] of this.revokedTokens) {
+      if (expiresAt <= now) {
+        this.revokedTokens.delete(jti);
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import type { SessionStore, SessionRecord } from '../types';
+
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, SessionRecord> = new Map();
+
+  async createSession(session: SessionRecord): Promise<void> {
+    this.prune();
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async touchSession(id: string, lastSeenAt: Date): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastSeenAt = lastSeenAt;
+    }
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (session.userId === userId) {
+        this.sessions.delete(session.id);
+      }
+    }
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const session of this.sessions.values()) {
+      if (session.expiresAt.getTime() <= now) {
+        this.sessions.delete(session.id);
+      }
+    }
+  }
+}
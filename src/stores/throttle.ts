@@ -0,0 +1,50 @@
+import type { ThrottleStore, ThrottleRecord } from '../types';
+
+interface Entry {
+  record: ThrottleRecord;
+  expiresAt: number;
+}
+
+export class MemoryThrottleStore implements ThrottleStore {
+  private entries: Map<string, Entry> = new Map();
+
+  async getAttempts(key: string): Promise<ThrottleRecord | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return { ...entry.record };
+  }
+
+  async saveAttempts(key: string, record: ThrottleRecord, ttlMs: number): Promise<void> {
+    this.entries.set(key, { record: { ...record }, expiresAt: Date.now() + ttlMs });
+  }
+
+  // Runs `update` without awaiting in between, so concurrent callers can't interleave
+  async updateAttempts(
+    key: string,
+    update: (record: ThrottleRecord | null) => ThrottleRecord | null,
+    ttlMs: number
+  ): Promise<ThrottleRecord | null> {
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > Date.now() ? { ...entry.record } : null;
+    const record = update(current);
+    if (record) {
+      this.entries.set(key, { record: { ...record }, expiresAt: Date.now() + ttlMs });
+    } else {
+      this.entries.delete(key);
+    }
+    return record;
+  }
+
+  async resetAttempts(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
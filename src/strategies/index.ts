@@ -1 +1,3 @@
 export { JWTStrategy } from './jwt';
+export { SessionStrategy } from './session';
+export type { JWTKey, JWK, JWKS, AsymmetricAlgorithm } from './keys';
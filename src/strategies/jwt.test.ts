@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { JWTStrategy } from './jwt';
+
+const user = { id: 'user-1', email: 'ada@example.com' };
+
+function ed25519Key(kid: string) {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  return { kid, algorithm: 'EdDSA' as const, privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string };
+}
+
+describe('JWTStrategy with EdDSA keys', () => {
+  it('signs tokens that verify, each with its own jti', async () => {
+    const strategy = new JWTStrategy({ keys: [ed25519Key('k1')], issuer: 'https://api.example.com' });
+
+    const first = await strategy.verify(await strategy.generateToken(user));
+    const second = await strategy.verify(await strategy.generateToken(user));
+
+    expect(first).toMatchObject({ success: true, user: { id: 'user-1', iss: 'https://api.example.com' } });
+    expect(typeof first.user!.jti).toBe('string');
+    expect(first.user!.jti).not.toBe(second.user!.jti);
+  });
+
+  it('verifies with only the published JWKS', async () => {
+    const signer = new JWTStrategy({ keys: [ed25519Key('k1')] });
+    const verifier = new JWTStrategy({ jwks: signer.getJWKS() });
+
+    const result = await verifier.verify(await signer.generateToken(user));
+
+    expect(result).toMatchObject({ success: true, user: { id: 'user-1' } });
+  });
+
+  it('accepts the same expiresIn strings as jsonwebtoken', async () => {
+    for (const [expiresIn, seconds] of [['2 days', 172800], ['1 hour', 3600], ['1y', 31557600], ['1.5h', 5400]] as const) {
+      const strategy = new JWTStrategy({ keys: [ed25519Key('k1')], expiresIn });
+
+      const { user: claims } = await strategy.verify(await strategy.generateToken(user));
+
+      expect(claims!.exp - claims!.iat).toBe(seconds);
+    }
+  });
+
+  it('rejects tokens signed with an unknown key', async () => {
+    const signer = new JWTStrategy({ keys: [ed25519Key('k1')] });
+    const verifier = new JWTStrategy({ keys: [ed25519Key('k1')] });
+
+    const result = await verifier.verify(await signer.generateToken(user));
+
+    expect(result).toMatchObject({ success: false, code: 'TOKEN_INVALID' });
+  });
+});
+
+describe('JWTStrategy.checkConfiguration', () => {
+  it('reports an expiresIn it cannot parse instead of throwing', () => {
+    const strategy = new JWTStrategy({ keys: [ed25519Key('k1')], expiresIn: 'soon' });
+
+    expect(strategy.checkConfiguration()).toContainEqual(
+      expect.objectContaining({ severity: 'error', code: 'INVALID_TOKEN_LIFETIME' })
+    );
+  });
+});
@@ -1,40 +1,85 @@
+import crypto from 'crypto';
+import fs from 'fs';
 import jwt from 'jsonwebtoken';
-import type { AuthStrategy, User, LoginCredentials, AuthResult } from '../types';
+import type { AuthStrategy, User, AuthResult, ConfigIssue } from '../types';
+import { parseDuration } from '../core/duration';
+import { checkSecret } from '../core/secrets';
+import { AuthErrorCode, authFailure } from '../core/errors';
+import {
+  resolveKey,
+  resolveJWK,
+  toJWK,
+  signEdDSA,
+  verifyEdDSA,
+} from './keys';
+import type { JWTKey, JWKS, ResolvedKey } from './keys';
+
+// Longer-lived access tokens are reported by `checkConfiguration`
+const MAX_RECOMMENDED_EXPIRES_IN = '1d';
+
+// Set by the strategy itself; `buildClaims` can't override them
+const REGISTERED_CLAIMS = ['iss', 'sub', 'aud', 'exp', 'nbf', 'iat', 'jti'];
+
+export interface JWTClaimsConfig {
+  // Only these user fields are copied into the token (besides `sub` and `email`)
+  fields?: string[];
+  buildClaims?: (user: User) => Record<string, any> | Promise<Record<string, any>>;
+}
 
 export interface JWTStrategyConfig {
-  secret: string;
+  // Shared HMAC secret; use `keys` or `jwks` instead for asymmetric signing
+  secret?: string;
+  algorithm?: 'HS256' | 'HS384' | 'HS512';
+  keys?: JWTKey[];
+  // Key used for signing; defaults to the first non-retired key with a private key
+  activeKid?: string;
+  // Verify-only: public keys from a JWKS document or a path to one
+  jwks?: JWKS | string;
   expiresIn?: string | number;
   issuer?: string;
   audience?: string;
+  claims?: JWTClaimsConfig;
 }
 
 export class JWTStrategy implements AuthStrategy {
   name = 'jwt';
   private config: JWTStrategyConfig;
+  private keys: ResolvedKey[];
 
   constructor(config: JWTStrategyConfig) {
     this.config = {
       expiresIn: '7d',
       ...config,
     };
+
+    this.keys = (config.keys || []).map(resolveKey);
+    if (config.jwks) {
+      const jwks: JWKS = typeof config.jwks === 'string'
+        ? JSON.parse(fs.readFileSync(config.jwks, 'utf8'))
+        : config.jwks;
+      this.keys.push(...jwks.keys.map(resolveJWK));
+    }
+
+    if (!config.secret && this.keys.length === 0) {
+      throw new Error('JWTStrategy requires a secret, keys or a jwks');
+    }
+    if (config.activeKid && !this.keys.some((key) => key.kid === config.activeKid && key.privateKey)) {
+      throw new Error(`No private key with kid "${config.activeKid}"`);
+    }
   }
 
-  async authenticate(credentials: LoginCredentials): Promise<AuthResult> {
-    return {
-      success: false,
-      error: 'JWT strategy does not support direct authentication. Use login flow instead.',
-    };
+  async authenticate(): Promise<AuthResult> {
+    return authFailure(AuthErrorCode.NOT_SUPPORTED, {
+      message: 'JWT strategy does not support direct authentication. Use login flow instead.',
+    });
   }
 
   async verify(token: string): Promise<AuthResult> {
     try {
-      const decoded = jwt.verify(token, this.config.secret, {
-        issuer: this.config.issuer,
-        audience: this.config.audience,
-      }) as jwt.JwtPayload;
+      const decoded = this.decodeAndVerify(token);
 
       if (!decoded.sub) {
-        return { success: false, error: 'Invalid token payload' };
+        return authFailure(AuthErrorCode.TOKEN_INVALID, { message: 'Invalid token payload' });
       }
 
       return {
@@ -47,30 +92,180 @@ export class JWTStrategy implements AuthStrategy {
       };
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
-        return { success: false, error: 'Token expired' };
+        return authFailure(AuthErrorCode.TOKEN_EXPIRED);
       }
       if (error instanceof jwt.JsonWebTokenError) {
-        return { success: false, error: 'Invalid token' };
+        return authFailure(AuthErrorCode.TOKEN_INVALID);
       }
-      return { success: false, error: 'Token verification failed' };
+      return authFailure(AuthErrorCode.TOKEN_INVALID, { message: 'Token verification failed' });
     }
   }
 
   async generateToken(user: User): Promise<string> {
-    const payload = {
-      sub: user.id,
+    const payload = await this.buildPayload(user);
+
+    const signingKey = this.getSigningKey();
+    if (!signingKey) {
+      if (!this.config.secret) {
+        throw new Error('JWTStrategy is verify-only: no signing key configured');
+      }
+      return jwt.sign(payload, this.config.secret, {
+        ...this.signOptions(),
+        algorithm: this.config.algorithm || 'HS256',
+      });
+    }
+
+    if (signingKey.algorithm === 'EdDSA') {
+      const iat = Math.floor(Date.now() / 1000);
+      return signEdDSA({
+        ...payload,
+        iat,
+        exp: iat + Math.floor(parseDuration(this.config.expiresIn!) / 1000),
+        jti: crypto.randomUUID(),
+        ...(this.config.issuer ? { iss: this.config.issuer } : {}),
+        ...(this.config.audience ? { aud: this.config.audience } : {}),
+      }, signingKey);
+    }
+
+    return jwt.sign(payload, signingKey.privateKey!, {
+      ...this.signOptions(),
+      algorithm: signingKey.algorithm,
+      keyid: signingKey.kid,
+    });
+  }
+
+  getJWKS(): JWKS {
+    return { keys: this.getVerificationKeys().map(toJWK) };
+  }
+
+  checkConfiguration(): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    if (this.config.secret) {
+      issues.push(...checkSecret(this.config.secret, this.config.algorithm));
+    }
+
+    let lifetime: number | undefined;
+    try {
+      lifetime = parseDuration(this.config.expiresIn!);
+    } catch (error) {
+      issues.push({
+        severity: 'error',
+        code: 'INVALID_TOKEN_LIFETIME',
+        message: `expiresIn is not a duration: ${JSON.stringify(this.config.expiresIn)}`,
+        hint: 'Use seconds as a number or a string like 15m, 1h or 2 days',
+      });
+    }
+    if (lifetime !== undefined && lifetime > parseDuration(MAX_RECOMMENDED_EXPIRES_IN)) {
+      issues.push({
+        severity: 'warning',
+        code: 'LONG_TOKEN_LIFETIME',
+        message: `Access tokens are valid for ${this.config.expiresIn}; a leaked token can be used that long`,
+        hint: 'Set expiresIn to 1h or less and enable refresh tokens',
+      });
+    }
+    if (!this.config.issuer) {
+      issues.push({
+        severity: 'warning',
+        code: 'MISSING_ISSUER',
+        message: 'Tokens carry no issuer, so other services signing with the same key are accepted',
+        hint: 'Set issuer, e.g. your API\'s URL',
+      });
+    }
+    if (!this.config.audience) {
+      issues.push({
+        severity: 'warning',
+        code: 'MISSING_AUDIENCE',
+        message: 'Tokens carry no audience, so a token meant for another app is accepted',
+        hint: 'Set audience to an identifier for this API',
+      });
+    }
+    return issues;
+  }
+
+  private async buildPayload(user: User): Promise<Record<string, any>> {
+    const fields = this.config.claims?.fields;
+    const payload: Record<string, any> = {
       email: user.email,
       ...Object.keys(user)
         .filter(key => !['id', 'password'].includes(key))
+        .filter(key => !fields || fields.includes(key))
         .reduce((acc, key) => ({ ...acc, [key]: user[key] }), {}),
     };
 
+    if (this.config.claims?.buildClaims) {
+      const custom = await this.config.claims.buildClaims(user);
+      for (const [key, value] of Object.entries(custom)) {
+        if (!REGISTERED_CLAIMS.includes(key)) {
+          payload[key] = value;
+        }
+      }
+    }
+
+    // Set by the engine to tie the token to its login session, so `claims.fields` can't drop it
+    if (typeof user.sessionId === 'string') {
+      payload.sessionId = user.sessionId;
+    }
+    payload.sub = user.id;
+    return payload;
+  }
+
+  private signOptions(): jwt.SignOptions {
     const options: jwt.SignOptions = {
       expiresIn: this.config.expiresIn as jwt.SignOptions['expiresIn'],
+      jwtid: crypto.randomUUID(),
     };
     if (this.config.issuer) options.issuer = this.config.issuer;
     if (this.config.audience) options.audience = this.config.audience;
+    return options;
+  }
+
+  private getSigningKey(): ResolvedKey | undefined {
+    const candidates = this.getVerificationKeys().filter((key) => key.privateKey);
+    if (this.config.activeKid) {
+      return candidates.find((key) => key.kid === this.config.activeKid);
+    }
+    return candidates[0];
+  }
+
+  private getVerificationKeys(): ResolvedKey[] {
+    const now = Date.now();
+    return this.keys.filter((key) => !key.retiredAt || key.retiredAt.getTime() > now);
+  }
+
+  private decodeAndVerify(token: string): jwt.JwtPayload {
+    const options = {
+      issuer: this.config.issuer,
+      audience: this.config.audience,
+    };
+
+    const header = jwt.decode(token, { complete: true })?.header;
+    if (!header) {
+      throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    if (!header.kid) {
+      if (!this.config.secret) {
+        throw new jwt.JsonWebTokenError('jwt has no kid');
+      }
+      return jwt.verify(token, this.config.secret, {
+        ...options,
+        algorithms: [this.config.algorithm || 'HS256'],
+      }) as jwt.JwtPayload;
+    }
+
+    const key = this.getVerificationKeys().find((candidate) => candidate.kid === header.kid);
+    // The header's alg must match the key, otherwise a public key could be abused as an HMAC secret
+    if (!key || header.alg !== key.algorithm) {
+      throw new jwt.JsonWebTokenError('unknown or retired key');
+    }
+
+    if (key.algorithm === 'EdDSA') {
+      return verifyEdDSA(token, key, options);
+    }
 
-    return jwt.sign(payload, this.config.secret, options);
+    return jwt.verify(token, key.publicKey, {
+      ...options,
+      algorithms: [key.algorithm],
+    }) as jwt.JwtPayload;
   }
 }
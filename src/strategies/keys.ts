@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+export type AsymmetricAlgorithm =
+  | 'RS256' | 'RS384' | 'RS512'
+  | 'PS256' | 'PS384' | 'PS512'
+  | 'ES256' | 'ES384' | 'ES512'
+  | 'EdDSA';
+
+export type JWTKeyInput = string | Buffer | crypto.KeyObject;
+
+export interface JWTKey {
+  kid: string;
+  algorithm: AsymmetricAlgorithm;
+  // Omit for keys that should only verify, e.g. ones published by another service
+  privateKey?: JWTKeyInput;
+  publicKey?: JWTKeyInput | crypto.JsonWebKey;
+  // From this moment on the key no longer verifies tokens and is dropped from the JWKS
+  retiredAt?: Date;
+}
+
+export interface JWK extends crypto.JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface JWKS {
+  keys: JWK[];
+}
+
+export interface ResolvedKey {
+  kid: string;
+  algorithm: AsymmetricAlgorithm;
+  privateKey?: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  retiredAt?: Date;
+}
+
+export function resolveKey(key: JWTKey): ResolvedKey {
+  const privateKey = key.privateKey ? toPrivateKey(key.privateKey) : undefined;
+  let publicKey: crypto.KeyObject;
+
+  if (key.publicKey) {
+    publicKey = toPublicKey(key.publicKey);
+  } else if (privateKey) {
+    publicKey = crypto.createPublicKey(privateKey);
+  } else {
+    throw new Error(`JWT key "${key.kid}" needs a privateKey or a publicKey`);
+  }
+
+  return {
+    kid: key.kid,
+    algorithm: key.algorithm,
+    privateKey,
+    publicKey,
+    retiredAt: key.retiredAt,
+  };
+}
+
+export function resolveJWK(jwk: JWK): ResolvedKey {
+  if (!jwk.kid) {
+    throw new Error('JWKS keys must have a "kid"');
+  }
+
+  return {
+    kid: jwk.kid,
+    algorithm: (jwk.alg as AsymmetricAlgorithm) || inferAlgorithm(jwk),
+    publicKey: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+  };
+}
+
+export function toJWK(key: ResolvedKey): JWK {
+  return {
+    ...key.publicKey.export({ format: 'jwk' }),
+    kid: key.kid,
+    alg: key.algorithm,
+    use: 'sig',
+  };
+}
+
+function toPrivateKey(input: JWTKeyInput): crypto.KeyObject {
+  return input instanceof crypto.KeyObject ? input : crypto.createPrivateKey(input);
+}
+
+function toPublicKey(input: JWTKeyInput | crypto.JsonWebKey): crypto.KeyObject {
+  if (input instanceof crypto.KeyObject) return input;
+  if (typeof input === 'string' || Buffer.isBuffer(input)) return crypto.createPublicKey(input);
+  return crypto.createPublicKey({ key: input, format: 'jwk' });
+}
+
+function inferAlgorithm(jwk: JWK): AsymmetricAlgorithm {
+  if (jwk.kty === 'OKP') return 'EdDSA';
+  if (jwk.kty === 'RSA') return 'RS256';
+  if (jwk.kty === 'EC') {
+    if (jwk.crv === 'P-384') return 'ES384';
+    if (jwk.crv === 'P-521') return 'ES512';
+    return 'ES256';
+  }
+  throw new Error(`Cannot infer algorithm for JWK "${jwk.kid}"`);
+}
+
+// jsonwebtoken has no EdDSA support, so Ed25519/Ed448 tokens are signed and checked here
+export function signEdDSA(payload: Record<string, any>, key: ResolvedKey): string {
+  const header = { alg: 'EdDSA', typ: 'JWT', kid: key.kid };
+  const input = base64url(JSON.stringify(header)) + '.' + base64url(JSON.stringify(payload));
+  const signature = crypto.sign(null, Buffer.from(input), key.privateKey!);
+
+  return input + '.' + signature.toString('base64url');
+}
+
+export function verifyEdDSA(
+  token: string,
+  key: ResolvedKey,
+  options: { issuer?: string; audience?: string }
+): jwt.JwtPayload {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  const valid = crypto.verify(
+    null,
+    Buffer.from(header + '.' + payload),
+    key.publicKey,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) {
+    throw new jwt.JsonWebTokenError('invalid signature');
+  }
+
+  let decoded: jwt.JwtPayload;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new jwt.JsonWebTokenError('invalid token');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof decoded.nbf === 'number' && decoded.nbf > now) {
+    throw new jwt.NotBeforeError('jwt not active', new Date(decoded.nbf * 1000));
+  }
+  if (typeof decoded.exp === 'number' && decoded.exp <= now) {
+    throw new jwt.TokenExpiredError('jwt expired', new Date(decoded.exp * 1000));
+  }
+  if (options.issuer && decoded.iss !== options.issuer) {
+    throw new jwt.JsonWebTokenError('jwt issuer invalid. expected: ' + options.issuer);
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(decoded.aud) ? decoded.aud : [decoded.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new jwt.JsonWebTokenError('jwt audience invalid. expected: ' + options.audience);
+    }
+  }
+
+  return decoded;
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
@@ -0,0 +1,95 @@
+import type { AuthStrategy, User, AuthResult, SessionStore, ConfigCheckContext, ConfigIssue } from '../types';
+import { MemorySessionStore } from '../stores/session';
+import { generateOpaqueToken, hashToken } from '../core/tokens';
+import { parseDuration } from '../core/duration';
+import { AuthErrorCode, authFailure } from '../core/errors';
+
+export interface SessionStrategyConfig {
+  store?: SessionStore;
+  idleTimeout?: string | number;
+  absoluteTimeout?: string | number;
+}
+
+export class SessionStrategy implements AuthStrategy {
+  name = 'session';
+  private config: SessionStrategyConfig;
+  private store: SessionStore;
+
+  constructor(config: SessionStrategyConfig = {}) {
+    this.config = {
+      idleTimeout: '30m',
+      absoluteTimeout: '7d',
+      ...config,
+    };
+    this.store = config.store || new MemorySessionStore();
+  }
+
+  async authenticate(): Promise<AuthResult> {
+    return authFailure(AuthErrorCode.NOT_SUPPORTED, {
+      message: 'Session strategy does not support direct authentication. Use login flow instead.',
+    });
+  }
+
+  async verify(token: string): Promise<AuthResult> {
+    const id = hashToken(token);
+    const session = await this.store.getSession(id);
+    if (!session) {
+      return authFailure(AuthErrorCode.TOKEN_INVALID, { message: 'Invalid session' });
+    }
+
+    const now = Date.now();
+    const idleTimeout = parseDuration(this.config.idleTimeout!);
+    if (session.expiresAt.getTime() <= now || session.lastSeenAt.getTime() + idleTimeout <= now) {
+      await this.store.deleteSession(id);
+      return authFailure(AuthErrorCode.TOKEN_EXPIRED, { message: 'Session expired' });
+    }
+
+    await this.store.touchSession(id, new Date(now));
+
+    return {
+      success: true,
+      user: {
+        ...session.user,
+        id: session.userId,
+        sid: session.id,
+      },
+    };
+  }
+
+  // The session ID is the credential, so only its hash is stored
+  async generateToken(user: User): Promise<string> {
+    const token = generateOpaqueToken();
+    const now = new Date();
+
+    await this.store.createSession({
+      id: hashToken(token),
+      userId: user.id,
+      user,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + parseDuration(this.config.absoluteTimeout!)),
+    });
+
+    return token;
+  }
+
+  async revoke(token: string): Promise<void> {
+    await this.store.deleteSession(hashToken(token));
+  }
+
+  async revokeUser(userId: string): Promise<void> {
+    await this.store.deleteUserSessions(userId);
+  }
+
+  checkConfiguration(context: ConfigCheckContext): ConfigIssue[] {
+    if (context.production && this.store instanceof MemorySessionStore) {
+      return [{
+        severity: 'error',
+        code: 'MEMORY_SESSION_STORE',
+        message: 'Sessions are kept in memory: everyone is logged out on restart and other processes can\'t see them',
+        hint: 'Pass a persistent store, e.g. `store: adapter` with the SQLite or File adapter',
+      }];
+    }
+    return [];
+  }
+}
@@ -0,0 +1,531 @@
+import crypto from 'crypto';
+import type { DatabaseAdapter } from '../types';
+
+export interface AdapterConformanceOptions {
+  // Runs after every test, e.g. to truncate tables or close a connection
+  cleanup?: (adapter: DatabaseAdapter) => void | Promise<void>;
+  // Also check the optional refresh token methods
+  refreshTokens?: boolean;
+  // Also check the optional verification token methods
+  verificationTokens?: boolean;
+  // Also check the optional incrementVerificationTokenAttempts method
+  verificationTokenAttempts?: boolean;
+  // Also check the optional linked account methods
+  linkedAccounts?: boolean;
+  // Also check the optional listUsers method
+  listUsers?: boolean;
+  // Also check the optional API key methods
+  apiKeys?: boolean;
+  // Also check the optional login session methods
+  loginSessions?: boolean;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function uniqueEmail(): string {
+  return `user-${crypto.randomUUID()}@example.com`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function expectCode(promise: Promise<unknown>, code: string): Promise<void> {
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+/**
+ * Registers Jest tests that check an adapter against the contract the engine relies on.
+ * `createAdapter` is called before every test.
+ */
+export function runAdapterConformanceTests(
+  name: string,
+  createAdapter: () => DatabaseAdapter | Promise<DatabaseAdapter>,
+  options: AdapterConformanceOptions = {}
+): void {
+  describe(`${name} (DatabaseAdapter conformance)`, () => {
+    let adapter: DatabaseAdapter;
+
+    beforeEach(async () => {
+      adapter = await createAdapter();
+    });
+
+    afterEach(async () => {
+      if (options.cleanup) {
+        await options.cleanup(adapter);
+      }
+    });
+
+    describe('createUser', () => {
+      it('assigns an id and timestamps', async () => {
+        const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+
+        expect(typeof user.id).toBe('string');
+        expect(user.id.length).toBeGreaterThan(0);
+        expect(user.createdAt).toBeInstanceOf(Date);
+        expect(user.updatedAt).toBeInstanceOf(Date);
+      });
+
+      it('gives every user a distinct id', async () => {
+        const first = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+        const second = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+
+        expect(first.id).not.toBe(second.id);
+      });
+
+      it('stores custom fields', async () => {
+        const email = uniqueEmail();
+        const user = await adapter.createUser({ email, password: 'hash', name: 'Ada', role: 'admin' });
+
+        const found = await adapter.findUserById(user.id);
+        expect(found).toMatchObject({ email, password: 'hash', name: 'Ada', role: 'admin' });
+      });
+
+      it('rejects an email that is already registered, regardless of case', async () => {
+        const email = uniqueEmail();
+        await adapter.createUser({ email, password: 'hash' });
+
+        await expectCode(adapter.createUser({ email: email.toUpperCase(), password: 'hash' }), 'DUPLICATE_EMAIL');
+      });
+
+      it('lets only one of several concurrent calls for the same email succeed', async () => {
+        const email = uniqueEmail();
+        const results = await Promise.allSettled(
+          Array.from({ length: 5 }, () => adapter.createUser({ email, password: 'hash' }))
+        );
+
+        const fulfilled = results.filter((result) => result.status === 'fulfilled');
+        const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        expect(fulfilled).toHaveLength(1);
+        for (const result of rejected) {
+          expect(result.reason).toMatchObject({ code: 'DUPLICATE_EMAIL' });
+        }
+      });
+    });
+
+    describe('findUserByEmail', () => {
+      it('matches emails case-insensitively', async () => {
+        const email = uniqueEmail();
+        const user = await adapter.createUser({ email, password: 'hash' });
+
+        const found = await adapter.findUserByEmail(email.toUpperCase());
+        expect(found?.id).toBe(user.id);
+      });
+
+      it('returns null for an unknown email', async () => {
+        await expect(adapter.findUserByEmail(uniqueEmail())).resolves.toBeNull();
+      });
+    });
+
+    describe('findUserById', () => {
+      it('returns null for an unknown id', async () => {
+        await expect(adapter.findUserById(crypto.randomUUID())).resolves.toBeNull();
+      });
+    });
+
+    describe('updateUser', () => {
+      it('merges fields and refreshes updatedAt', async () => {
+        const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash', name: 'Ada' });
+        await sleep(10);
+
+        const updated = await adapter.updateUser(user.id, { name: 'Grace' });
+        expect(updated).toMatchObject({ id: user.id, email: user.email, password: 'hash', name: 'Grace' });
+        expect(updated.createdAt.getTime()).toBe(user.createdAt.getTime());
+        expect(updated.updatedAt.getTime()).toBeGreaterThanOrEqual(user.updatedAt.getTime());
+
+        const found = await adapter.findUserById(user.id);
+        expect(found).toMatchObject({ name: 'Grace' });
+      });
+
+      it('never changes the id', async () => {
+        const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+
+        const updated = await adapter.updateUser(user.id, { id: crypto.randomUUID() });
+        expect(updated.id).toBe(user.id);
+        await expect(adapter.findUserById(user.id)).resolves.not.toBeNull();
+      });
+
+      it('re-indexes the user when the email changes', async () => {
+        const oldEmail = uniqueEmail();
+        const newEmail = uniqueEmail();
+        const user = await adapter.createUser({ email: oldEmail, password: 'hash' });
+
+        await adapter.updateUser(user.id, { email: newEmail });
+        await expect(adapter.findUserByEmail(oldEmail)).resolves.toBeNull();
+        expect((await adapter.findUserByEmail(newEmail))?.id).toBe(user.id);
+
+        // The old address is free again
+        await expect(adapter.createUser({ email: oldEmail, password: 'hash' })).resolves.toBeDefined();
+      });
+
+      it('allows changing only the case of the email', async () => {
+        const email = uniqueEmail();
+        const user = await adapter.createUser({ email, password: 'hash' });
+
+        const updated = await adapter.updateUser(user.id, { email: email.toUpperCase() });
+        expect(updated.email).toBe(email.toUpperCase());
+        expect((await adapter.findUserByEmail(email))?.id).toBe(user.id);
+      });
+
+      it("rejects another user's email", async () => {
+        const taken = uniqueEmail();
+        await adapter.createUser({ email: taken, password: 'hash' });
+        const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+
+        await expectCode(adapter.updateUser(user.id, { email: taken.toUpperCase() }), 'DUPLICATE_EMAIL');
+        expect((await adapter.findUserById(user.id))?.email).toBe(user.email);
+      });
+
+      it('rejects an unknown id with USER_NOT_FOUND', async () => {
+        await expectCode(adapter.updateUser(crypto.randomUUID(), { name: 'Nobody' }), 'USER_NOT_FOUND');
+      });
+    });
+
+    describe('deleteUser', () => {
+      it('removes the user from both lookups and frees the email', async () => {
+        const email = uniqueEmail();
+        const user = await adapter.createUser({ email, password: 'hash' });
+
+        await adapter.deleteUser(user.id);
+        await expect(adapter.findUserById(user.id)).resolves.toBeNull();
+        await expect(adapter.findUserByEmail(email)).resolves.toBeNull();
+        await expect(adapter.createUser({ email, password: 'hash' })).resolves.toBeDefined();
+      });
+
+      it('resolves for an unknown id', async () => {
+        await expect(adapter.deleteUser(crypto.randomUUID())).resolves.toBeUndefined();
+      });
+    });
+
+    if (options.listUsers) {
+      describe('listUsers', () => {
+        it('returns users oldest first', async () => {
+          const first = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          await sleep(10);
+          const second = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+
+          const ids = (await adapter.listUsers!()).map((user) => user.id);
+          expect(ids).toContain(first.id);
+          expect(ids.indexOf(first.id)).toBeLessThan(ids.indexOf(second.id));
+        });
+
+        it('pages with limit and offset', async () => {
+          await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+
+          const all = await adapter.listUsers!();
+          const page = await adapter.listUsers!({ limit: 1, offset: 1 });
+          expect(page).toHaveLength(1);
+          expect(page[0].id).toBe(all[1].id);
+          expect(page[0].createdAt).toBeInstanceOf(Date);
+        });
+      });
+    }
+
+    if (options.refreshTokens) {
+      describe('refresh tokens', () => {
+        const create = async (userId: string, familyId = crypto.randomUUID()) => {
+          return adapter.createRefreshToken!({
+            userId,
+            familyId,
+            tokenHash: crypto.randomBytes(32).toString('hex'),
+            expiresAt: new Date(Date.now() + HOUR),
+          });
+        };
+
+        it('stores records and finds them by hash', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const record = await create(user.id);
+
+          const found = await adapter.findRefreshToken!(record.tokenHash);
+          expect(found).toMatchObject({ id: record.id, userId: user.id, familyId: record.familyId });
+          expect(found?.expiresAt).toBeInstanceOf(Date);
+          expect(found?.createdAt).toBeInstanceOf(Date);
+          await expect(adapter.findRefreshToken!('unknown')).resolves.toBeNull();
+        });
+
+        it('marks a token used exactly once, even under concurrency', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const record = await create(user.id);
+
+          const results = await Promise.all([
+            adapter.markRefreshTokenUsed!(record.id),
+            adapter.markRefreshTokenUsed!(record.id),
+          ]);
+          expect(results.filter(Boolean)).toHaveLength(1);
+          expect((await adapter.findRefreshToken!(record.tokenHash))?.usedAt).toBeInstanceOf(Date);
+        });
+
+        it('revokes a whole family', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const record = await create(user.id);
+          const other = await create(user.id);
+
+          await adapter.revokeRefreshTokenFamily!(record.familyId);
+          expect((await adapter.findRefreshToken!(record.tokenHash))?.revokedAt).toBeInstanceOf(Date);
+          expect((await adapter.findRefreshToken!(other.tokenHash))?.revokedAt).toBeUndefined();
+          await expect(adapter.markRefreshTokenUsed!(record.id)).resolves.toBe(false);
+        });
+
+        it('revokes every token a user was issued before a date', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const record = await create(user.id);
+
+          await adapter.revokeUserRefreshTokens!(user.id, new Date(Date.now() + 1000));
+          expect((await adapter.findRefreshToken!(record.tokenHash))?.revokedAt).toBeInstanceOf(Date);
+        });
+      });
+    }
+
+    if (options.verificationTokens) {
+      describe('verification tokens', () => {
+        const create = async (userId: string, type: 'password-reset' | 'email-verification') => {
+          return adapter.createVerificationToken!({
+            type,
+            userId,
+            tokenHash: crypto.randomBytes(32).toString('hex'),
+            expiresAt: new Date(Date.now() + HOUR),
+          });
+        };
+
+        it('stores records and finds them by hash', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const record = await create(user.id, 'password-reset');
+
+          const found = await adapter.findVerificationToken!(record.tokenHash);
+          expect(found).toMatchObject({ id: record.id, type: 'password-reset', userId: user.id });
+          expect(found?.expiresAt).toBeInstanceOf(Date);
+          await expect(adapter.findVerificationToken!('unknown')).resolves.toBeNull();
+        });
+
+        it('keeps the data stored with a token', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const record = await adapter.createVerificationToken!({
+            type: 'magic-link',
+            userId: user.id,
+            tokenHash: crypto.randomBytes(32).toString('hex'),
+            expiresAt: new Date(Date.now() + HOUR),
+            data: { email: user.email, attempts: 1 },
+          });
+
+          const found = await adapter.findVerificationToken!(record.tokenHash);
+          expect(found?.data).toEqual({ email: user.email, attempts: 1 });
+        });
+
+        it('marks a token used exactly once', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const record = await create(user.id, 'password-reset');
+
+          await expect(adapter.markVerificationTokenUsed!(record.id)).resolves.toBe(true);
+          await expect(adapter.markVerificationTokenUsed!(record.id)).resolves.toBe(false);
+        });
+
+        if (options.verificationTokenAttempts) {
+          it('counts failed attempts per token', async () => {
+            const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+            const record = await create(user.id, 'password-reset');
+            const other = await create(user.id, 'email-verification');
+
+            await expect(adapter.incrementVerificationTokenAttempts!(record.id)).resolves.toBe(1);
+            await expect(adapter.incrementVerificationTokenAttempts!(record.id)).resolves.toBe(2);
+            await expect(adapter.findVerificationToken!(record.tokenHash)).resolves.toMatchObject({ attempts: 2 });
+            expect((await adapter.findVerificationToken!(other.tokenHash))?.attempts ?? 0).toBe(0);
+          });
+        }
+
+        it("deletes one type of a user's tokens", async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const reset = await create(user.id, 'password-reset');
+          const verification = await create(user.id, 'email-verification');
+
+          await adapter.deleteVerificationTokens!(user.id, 'password-reset');
+          await expect(adapter.findVerificationToken!(reset.tokenHash)).resolves.toBeNull();
+          await expect(adapter.findVerificationToken!(verification.tokenHash)).resolves.not.toBeNull();
+        });
+      });
+    }
+
+    if (options.linkedAccounts) {
+      describe('linked accounts', () => {
+        const link = async (userId: string, provider = 'github', providerAccountId: string = crypto.randomUUID()) => {
+          return adapter.linkAccount!({ userId, provider, providerAccountId, email: 'someone@example.com' });
+        };
+
+        it('stores accounts and finds them by provider and account id', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const account = await link(user.id);
+
+          const found = await adapter.findLinkedAccount!('github', account.providerAccountId);
+          expect(found).toMatchObject({ id: account.id, userId: user.id, email: 'someone@example.com' });
+          expect(found?.createdAt).toBeInstanceOf(Date);
+          await expect(adapter.findLinkedAccount!('google', account.providerAccountId)).resolves.toBeNull();
+        });
+
+        it('lets a user link several providers', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          await link(user.id, 'github');
+          await link(user.id, 'google');
+
+          const accounts = await adapter.listLinkedAccounts!(user.id);
+          expect(accounts.map((account) => account.provider).sort()).toEqual(['github', 'google']);
+        });
+
+        it('rejects an identity that is already linked', async () => {
+          const first = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const second = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const account = await link(first.id);
+
+          await expectCode(link(second.id, 'github', account.providerAccountId), 'ACCOUNT_ALREADY_LINKED');
+        });
+
+        it('unlinks accounts and removes them with the user', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const github = await link(user.id, 'github');
+          const google = await link(user.id, 'google');
+
+          await adapter.unlinkAccount!('github', github.providerAccountId);
+          await expect(adapter.findLinkedAccount!('github', github.providerAccountId)).resolves.toBeNull();
+
+          await adapter.deleteUser(user.id);
+          await expect(adapter.findLinkedAccount!('google', google.providerAccountId)).resolves.toBeNull();
+        });
+      });
+    }
+
+    if (options.apiKeys) {
+      describe('API keys', () => {
+        const createKey = async (userId: string, data: { expiresAt?: Date; scopes?: string[] } = {}) => {
+          const prefix = `qa_${crypto.randomBytes(6).toString('hex')}`;
+          return adapter.createApiKey!({
+            userId,
+            name: 'CI',
+            prefix,
+            keyHash: crypto.randomBytes(32).toString('hex'),
+            scopes: data.scopes ?? ['posts:read', 'posts:write'],
+            expiresAt: data.expiresAt,
+          });
+        };
+
+        it('stores keys and finds them by prefix', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const expiresAt = new Date(Date.now() + HOUR);
+          const key = await createKey(user.id, { expiresAt });
+
+          const found = await adapter.findApiKeyByPrefix!(key.prefix);
+          expect(found).toMatchObject({ id: key.id, userId: user.id, name: 'CI', keyHash: key.keyHash });
+          expect(found?.scopes).toEqual(['posts:read', 'posts:write']);
+          expect(found?.expiresAt?.getTime()).toBe(expiresAt.getTime());
+          expect(found?.createdAt).toBeInstanceOf(Date);
+          expect(found?.revokedAt).toBeUndefined();
+          await expect(adapter.findApiKeyByPrefix!('qa_000000000000')).resolves.toBeNull();
+        });
+
+        it('lists only the keys of the given user', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const other = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          await createKey(user.id);
+          await createKey(user.id, { scopes: [] });
+          await createKey(other.id);
+
+          const keys = await adapter.listApiKeys!(user.id);
+          expect(keys).toHaveLength(2);
+          expect(keys.every((key) => key.userId === user.id)).toBe(true);
+        });
+
+        it('records last use and revocation', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const key = await createKey(user.id);
+          const usedAt = new Date();
+
+          await adapter.updateApiKey!(key.id, { lastUsedAt: usedAt });
+          const used = await adapter.findApiKeyByPrefix!(key.prefix);
+          expect(used?.lastUsedAt?.getTime()).toBe(usedAt.getTime());
+          expect(used?.revokedAt).toBeUndefined();
+
+          const revokedAt = new Date();
+          await adapter.updateApiKey!(key.id, { revokedAt });
+          const revoked = await adapter.findApiKeyByPrefix!(key.prefix);
+          expect(revoked?.revokedAt?.getTime()).toBe(revokedAt.getTime());
+          expect(revoked?.lastUsedAt?.getTime()).toBe(usedAt.getTime());
+        });
+
+        it('removes keys with the user', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const key = await createKey(user.id);
+
+          await adapter.deleteUser(user.id);
+          await expect(adapter.findApiKeyByPrefix!(key.prefix)).resolves.toBeNull();
+          await expect(adapter.listApiKeys!(user.id)).resolves.toEqual([]);
+        });
+      });
+    }
+
+    if (options.loginSessions) {
+      describe('login sessions', () => {
+        const createSession = async (userId: string) => {
+          return adapter.createLoginSession!({
+            id: crypto.randomUUID(),
+            userId,
+            ip: '203.0.113.7',
+            userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0',
+            device: { type: 'desktop', browser: 'Firefox', os: 'Linux' },
+            expiresAt: new Date(Date.now() + HOUR),
+          });
+        };
+
+        it('stores sessions under the given id', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const session = await createSession(user.id);
+
+          const found = await adapter.findLoginSession!(session.id);
+          expect(found).toMatchObject({ id: session.id, userId: user.id, ip: '203.0.113.7' });
+          expect(found?.device).toEqual({ type: 'desktop', browser: 'Firefox', os: 'Linux' });
+          expect(found?.createdAt).toBeInstanceOf(Date);
+          expect(found?.lastSeenAt).toBeInstanceOf(Date);
+          expect(found?.expiresAt.getTime()).toBe(session.expiresAt.getTime());
+          expect(found?.revokedAt).toBeUndefined();
+          await expect(adapter.findLoginSession!(crypto.randomUUID())).resolves.toBeNull();
+        });
+
+        it('lists only the sessions of the given user', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const other = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          await createSession(user.id);
+          await createSession(user.id);
+          await createSession(other.id);
+
+          const sessions = await adapter.listLoginSessions!(user.id);
+          expect(sessions).toHaveLength(2);
+          expect(sessions.every((session) => session.userId === user.id)).toBe(true);
+        });
+
+        it('updates last seen, expiry and revocation independently', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const session = await createSession(user.id);
+          const seenAt = new Date(Date.now() + 1000);
+          const expiresAt = new Date(Date.now() + 2 * HOUR);
+
+          await adapter.updateLoginSession!(session.id, { lastSeenAt: seenAt, expiresAt });
+          const seen = await adapter.findLoginSession!(session.id);
+          expect(seen?.lastSeenAt.getTime()).toBe(seenAt.getTime());
+          expect(seen?.expiresAt.getTime()).toBe(expiresAt.getTime());
+          expect(seen?.revokedAt).toBeUndefined();
+
+          const revokedAt = new Date();
+          await adapter.updateLoginSession!(session.id, { revokedAt });
+          const revoked = await adapter.findLoginSession!(session.id);
+          expect(revoked?.revokedAt?.getTime()).toBe(revokedAt.getTime());
+          expect(revoked?.lastSeenAt.getTime()).toBe(seenAt.getTime());
+        });
+
+        it('removes sessions with the user', async () => {
+          const user = await adapter.createUser({ email: uniqueEmail(), password: 'hash' });
+          const session = await createSession(user.id);
+
+          await adapter.deleteUser(user.id);
+          await expect(adapter.findLoginSession!(session.id)).resolves.toBeNull();
+        });
+      });
+    }
+  });
+}
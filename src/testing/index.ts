@@ -0,0 +1,2 @@
+export { runAdapterConformanceTests } from './adapter';
+export type { AdapterConformanceOptions } from './adapter';
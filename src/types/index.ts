@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { AuthErrorCode, AuthFieldErrorCode } from '../core/errors';
+import type { OAuthProvider } from '../oauth/provider';
 
 export interface User {
   id: string;
@@ -13,6 +15,240 @@ export interface AuthConfig {
   session?: SessionConfig;
   callbacks?: AuthCallbacks;
   validation?: ValidationConfig;
+  refreshToken?: RefreshTokenConfig;
+  revocationStore?: RevocationStore;
+  rbac?: RBACConfig;
+  passwordReset?: PasswordResetConfig;
+  emailVerification?: EmailVerificationConfig;
+  twoFactor?: TwoFactorConfig;
+  magicLink?: MagicLinkConfig;
+  oauth?: OAuthConfig;
+  apiKeys?: ApiKeyConfig;
+  loginSessions?: LoginSessionConfig;
+  accountDeletion?: AccountDeletionConfig;
+  throttle?: ThrottleConfig;
+  userCache?: UserCacheConfig;
+  passwordHasher?: PasswordHasher;
+  localization?: LocalizationConfig;
+  auditLog?: AuditLogStore;
+}
+
+export interface PasswordHasher {
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+  // True when the hash was made with weaker settings or another algorithm than `hash()` uses now
+  needsRehash?(hash: string): boolean;
+  // True when the hash is in a format this hasher can verify
+  identify?(hash: string): boolean;
+}
+
+export interface UserCacheConfig {
+  ttl?: string | number;
+  maxSize?: number;
+}
+
+export interface PasswordResetConfig {
+  expiresIn?: string | number;
+}
+
+export interface EmailVerificationConfig {
+  required: boolean;
+  expiresIn?: string | number;
+  // 'reject' refuses unverified accounts at login, 'flag' lets them in with `emailVerified: false`
+  unverified?: 'reject' | 'flag';
+}
+
+export interface MagicLinkConfig {
+  expiresIn?: string | number;
+  // Create a passwordless account when a link is used for an unknown email
+  autoRegister?: boolean;
+}
+
+export interface OAuthConfig {
+  providers: OAuthProvider[];
+  // How long a user has to finish the flow at the provider
+  stateExpiresIn?: string | number;
+  // Create a passwordless account when an unknown identity signs in; defaults to true
+  autoRegister?: boolean;
+}
+
+export interface ApiKeyConfig {
+  // Start of every key, so keys stand out in Bearer headers and secret scanners; letters and digits only
+  prefix?: string;
+  // Scopes keys may be created with; any scope is allowed when unset
+  scopes?: string[];
+}
+
+export interface LoginSessionConfig {
+  // How long a session stays listed after sign-in; keep it at least as long as tokens live.
+  // With refresh tokens, a session lasts as long as its refresh token instead
+  expiresIn?: string | number;
+}
+
+export interface AccountDeletionConfig {
+  // How long a scheduled deletion can still be cancelled before `purgeDeletedUsers` removes the account
+  gracePeriod?: string | number;
+}
+
+// Stored as `user.status`; users without one are active
+export type AccountStatus = 'active' | 'disabled' | 'locked' | 'pending_deletion';
+
+export interface AccountStatusOptions {
+  // Stored as `statusReason`
+  reason?: string;
+  // Only for `locked`: the lock lifts by itself after this; locked until unlocked when unset
+  lockedUntil?: Date;
+}
+
+// Everything stored about a user, for data access requests; secrets and hashes are left out
+export interface UserDataExport {
+  exportedAt: Date;
+  user: User;
+  linkedAccounts: LinkedAccount[];
+  apiKeys: ApiKey[];
+  sessions: LoginSession[];
+  activity: AuditLogEntry[];
+}
+
+export interface TwoFactorConfig {
+  issuer: string;
+  window?: number;
+  challengeExpiresIn?: string | number;
+  recoveryCodes?: number;
+  // Wrong codes allowed per login challenge before it stops working; defaults to 5
+  maxAttempts?: number;
+  // Milliseconds since epoch; override to test against fixed clock values
+  clock?: () => number;
+}
+
+export interface RBACConfig {
+  roles: Record<string, string[]>;
+  roleField?: string;
+}
+
+export interface RefreshTokenConfig {
+  expiresIn?: string | number;
+}
+
+export interface ThrottleConfig {
+  store?: ThrottleStore;
+  maxAttempts?: number;
+  maxAttemptsPerClient?: number;
+  // Failures allowed before exponential backoff starts
+  freeAttempts?: number;
+  backoffBase?: string | number;
+  backoffMax?: string | number;
+  lockoutDuration?: string | number;
+  // Failures older than this are forgotten
+  window?: string | number;
+}
+
+export interface ThrottleRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil?: number;
+}
+
+export interface ThrottleStore {
+  getAttempts(key: string): Promise<ThrottleRecord | null>;
+  saveAttempts(key: string, record: ThrottleRecord, ttlMs: number): Promise<void>;
+  resetAttempts(key: string): Promise<void>;
+  // Reads, changes and writes a record as one atomic step; returning null deletes it.
+  // Without it, concurrent logins can race past the limits between the read and the write
+  updateAttempts?(
+    key: string,
+    update: (record: ThrottleRecord | null) => ThrottleRecord | null,
+    ttlMs: number
+  ): Promise<ThrottleRecord | null>;
+}
+
+export interface LockoutEvent {
+  type: 'email' | 'client';
+  identifier: string;
+  until: Date;
+}
+
+export interface AuthRequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export type LoginFailureReason =
+  | 'unknown_user'
+  | 'invalid_password'
+  | 'throttled'
+  | 'email_not_verified'
+  | 'invalid_two_factor_code'
+  | 'invalid_magic_link'
+  | 'oauth_failed'
+  | 'account_disabled'
+  | 'account_locked'
+  | 'account_pending_deletion'
+  | 'error';
+
+export type UserUpdateAction =
+  | 'profile'
+  | 'admin'
+  | 'password_change'
+  | 'password_reset'
+  | 'email_change'
+  | 'email_verified'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'status_change'
+  | 'deletion_scheduled'
+  | 'deletion_cancelled';
+
+// Payloads by event type; the emitter adds `type`, `timestamp` and `context`
+export interface AuthEventMap {
+  register: { user: User };
+  login: { user: User; method: 'password' | 'two-factor' | 'magic-link' | 'oauth' };
+  'login.failed': { email?: string; userId?: string; reason: LoginFailureReason };
+  logout: { user: User };
+  lockout: { lockout: LockoutEvent };
+  'token.rejected': { reason: AuthErrorCode; userId?: string };
+  'user.updated': { user: User; action: UserUpdateAction; fields: string[] };
+  'user.deleted': { userId: string; email?: string };
+  'account.linked': { user: User; provider: string; providerAccountId: string };
+  'account.unlinked': { user: User; provider: string; providerAccountId: string };
+  'api_key.created': { user: User; apiKey: ApiKey };
+  'api_key.revoked': { user: User; apiKey: ApiKey };
+  'session.revoked': { userId: string; session: LoginSession };
+}
+
+export type AuthEventType = keyof AuthEventMap;
+
+export type AuthEvent<T extends AuthEventType = AuthEventType> = {
+  [K in T]: AuthEventMap[K] & { type: K; timestamp: Date; context: AuthRequestContext };
+}[T];
+
+export interface AuditLogEntry {
+  id: string;
+  type: AuthEventType;
+  userId?: string;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  // Failure reason for `login.failed` and `token.rejected`
+  reason?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface AuditLogQuery {
+  userId?: string;
+  email?: string;
+  types?: AuthEventType[];
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogStore {
+  record(entry: Omit<AuditLogEntry, 'id'>): Promise<AuditLogEntry>;
+  // Newest entries first
+  query(query?: AuditLogQuery): Promise<AuditLogEntry[]>;
 }
 
 export interface ValidationConfig {
@@ -31,6 +267,21 @@ export interface AuthCallbacks {
   onLogin?: (user: User) => void | Promise<void>;
   onRegister?: (user: User) => void | Promise<void>;
   onLogout?: (user: User) => void | Promise<void>;
+  onPasswordChange?: (user: User) => void | Promise<void>;
+  onEmailChange?: (user: User, previousEmail: string) => void | Promise<void>;
+  // Unexpected exceptions; clients only ever see a generic INTERNAL_ERROR
+  onError?: (error: unknown) => void | Promise<void>;
+  sendEmail?: (email: AuthEmail) => void | Promise<void>;
+  onLockout?: (event: LockoutEvent) => void | Promise<void>;
+}
+
+export interface AuthEmail {
+  type: VerificationTokenType;
+  to: string;
+  token: string;
+  expiresAt: Date;
+  // Missing for magic links sent to an address that has no account yet
+  user?: User;
 }
 
 export interface DatabaseAdapter {
@@ -39,11 +290,176 @@ export interface DatabaseAdapter {
   createUser(data: CreateUserData): Promise<User>;
   updateUser(id: string, data: Partial<User>): Promise<User>;
   deleteUser(id: string): Promise<void>;
+
+  // Optional: used by admin tooling such as the CLI; oldest users first
+  listUsers?(query?: ListUsersQuery): Promise<User[]>;
+
+  // Optional: required when refresh tokens are enabled
+  createRefreshToken?(data: CreateRefreshTokenData): Promise<RefreshTokenRecord>;
+  findRefreshToken?(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  markRefreshTokenUsed?(id: string): Promise<boolean>;
+  revokeRefreshTokenFamily?(familyId: string): Promise<void>;
+  revokeUserRefreshTokens?(userId: string, before?: Date): Promise<void>;
+
+  // Optional: required by password reset, email verification and two-factor login
+  createVerificationToken?(data: CreateVerificationTokenData): Promise<VerificationTokenRecord>;
+  findVerificationToken?(tokenHash: string): Promise<VerificationTokenRecord | null>;
+  markVerificationTokenUsed?(id: string): Promise<boolean>;
+  // Optional: adds one failed attempt and returns the new count; without it a wrong two-factor code ends the challenge
+  incrementVerificationTokenAttempts?(id: string): Promise<number>;
+  deleteVerificationTokens?(userId: string, type: VerificationTokenType): Promise<void>;
+
+  // Optional: required by OAuth login
+  linkAccount?(data: CreateLinkedAccountData): Promise<LinkedAccount>;
+  findLinkedAccount?(provider: string, providerAccountId: string): Promise<LinkedAccount | null>;
+  listLinkedAccounts?(userId: string): Promise<LinkedAccount[]>;
+  unlinkAccount?(provider: string, providerAccountId: string): Promise<void>;
+
+  // Optional: required by API keys
+  createApiKey?(data: CreateApiKeyData): Promise<ApiKeyRecord>;
+  findApiKeyByPrefix?(prefix: string): Promise<ApiKeyRecord | null>;
+  listApiKeys?(userId: string): Promise<ApiKeyRecord[]>;
+  updateApiKey?(id: string, data: Partial<Pick<ApiKeyRecord, 'lastUsedAt' | 'revokedAt'>>): Promise<void>;
+
+  // Optional: required by login session tracking
+  createLoginSession?(data: CreateLoginSessionData): Promise<LoginSession>;
+  findLoginSession?(id: string): Promise<LoginSession | null>;
+  listLoginSessions?(userId: string): Promise<LoginSession[]>;
+  updateLoginSession?(
+    id: string,
+    data: Partial<Pick<LoginSession, 'lastSeenAt' | 'expiresAt' | 'revokedAt'>>
+  ): Promise<void>;
+}
+
+export interface ListUsersQuery {
+  limit?: number;
+  offset?: number;
+}
+
+// An identity at an OAuth provider that signs in as a local user
+export interface LinkedAccount {
+  id: string;
+  userId: string;
+  provider: string;
+  providerAccountId: string;
+  email?: string;
+  createdAt: Date;
+}
+
+export type CreateLinkedAccountData = Omit<LinkedAccount, 'id' | 'createdAt'>;
+
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  name: string;
+  // The public start of the key (`qa_1a2b3c4d5e6f`), unique and used for lookup
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export type CreateApiKeyData = Omit<ApiKeyRecord, 'id' | 'createdAt' | 'lastUsedAt' | 'revokedAt'>;
+
+// What clients see; the key itself is only returned once, when it is created
+export type ApiKey = Omit<ApiKeyRecord, 'keyHash'>;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes?: string[];
+  // Never expires when unset
+  expiresIn?: string | number;
+}
+
+export interface DeviceInfo {
+  type: 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+  browser?: string;
+  os?: string;
+}
+
+// One sign-in on one device; every token issued for it, including refreshed ones, carries its id as `sessionId`
+export interface LoginSession {
+  id: string;
+  userId: string;
+  ip?: string;
+  userAgent?: string;
+  device: DeviceInfo;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+export type CreateLoginSessionData = Omit<LoginSession, 'createdAt' | 'lastSeenAt' | 'revokedAt'>;
+
+export type VerificationTokenType =
+  | 'password-reset'
+  | 'email-verification'
+  | 'two-factor-challenge'
+  | 'magic-link'
+  | 'oauth-state';
+
+export interface VerificationTokenRecord {
+  id: string;
+  type: VerificationTokenType;
+  // For magic links to unregistered addresses this is the lowercased email; empty for anonymous OAuth state
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+  usedAt?: Date;
+  // Failed attempts counted by `incrementVerificationTokenAttempts`
+  attempts?: number;
+  // Flow-specific state stored with the token; must round-trip as JSON
+  data?: Record<string, any>;
+}
+
+export type CreateVerificationTokenData = Omit<VerificationTokenRecord, 'id' | 'createdAt' | 'usedAt' | 'attempts'>;
+
+export interface RefreshTokenRecord {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+  usedAt?: Date;
+  revokedAt?: Date;
+}
+
+export type CreateRefreshTokenData = Omit<RefreshTokenRecord, 'id' | 'createdAt' | 'usedAt' | 'revokedAt'>;
+
+export interface RevocationStore {
+  revokeToken(jti: string, expiresAt: Date): Promise<void>;
+  isTokenRevoked(jti: string): Promise<boolean>;
+  revokeUserTokens(userId: string, before: Date): Promise<void>;
+  getUserTokensRevokedBefore(userId: string): Promise<Date | null>;
+}
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  user: User;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+export interface SessionStore {
+  createSession(session: SessionRecord): Promise<void>;
+  getSession(id: string): Promise<SessionRecord | null>;
+  touchSession(id: string, lastSeenAt: Date): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  deleteUserSessions(userId: string): Promise<void>;
 }
 
 export interface CreateUserData {
   email: string;
-  password: string;
+  // Missing for passwordless accounts
+  password?: string;
   [key: string]: any;
 }
 
@@ -52,6 +468,37 @@ export interface AuthStrategy {
   authenticate(credentials: LoginCredentials): Promise<AuthResult>;
   verify(token: string): Promise<AuthResult>;
   generateToken(user: User): Promise<string>;
+  revoke?(token: string): Promise<void>;
+  revokeUser?(userId: string): Promise<void>;
+  // Reports weak settings; used by `engine.checkConfiguration()` and `quick-auth doctor`
+  checkConfiguration?(context: ConfigCheckContext): ConfigIssue[];
+}
+
+export interface ConfigCheckContext {
+  // Apply production rules, e.g. flag in-memory stores
+  production: boolean;
+}
+
+export type ConfigIssueCode =
+  | 'WEAK_SECRET'
+  | 'PLACEHOLDER_SECRET'
+  | 'LOW_ENTROPY_SECRET'
+  | 'LONG_TOKEN_LIFETIME'
+  | 'INVALID_TOKEN_LIFETIME'
+  | 'MISSING_ISSUER'
+  | 'MISSING_AUDIENCE'
+  | 'MEMORY_ADAPTER'
+  | 'MEMORY_REVOCATION_STORE'
+  | 'MEMORY_SESSION_STORE'
+  | 'NO_LOGIN_THROTTLE'
+  | 'WEAK_PASSWORD_POLICY';
+
+export interface ConfigIssue {
+  severity: 'error' | 'warning';
+  code: ConfigIssueCode;
+  message: string;
+  // How to fix it
+  hint?: string;
 }
 
 export interface LoginCredentials {
@@ -63,17 +510,78 @@ export interface AuthResult {
   success: boolean;
   user?: User;
   token?: string;
+  refreshToken?: string;
+  code?: AuthErrorCode;
   error?: string;
   errors?: Record<string, string>;
+  fieldErrors?: Record<string, AuthFieldError>;
+  verificationRequired?: boolean;
+  twoFactorRequired?: boolean;
+  challenge?: string;
+  // Seconds until another attempt is allowed
+  retryAfter?: number;
+  // Set when the request was authenticated with an API key
+  apiKey?: ApiKey;
+}
+
+export interface AuthFieldError {
+  code: AuthFieldErrorCode;
+  params?: Record<string, string | number>;
+}
+
+export interface AuthMessageCatalog {
+  errors?: Partial<Record<AuthErrorCode, string>>;
+  fields?: Partial<Record<AuthFieldErrorCode, string>>;
+  // Display names substituted for `{field}`
+  fieldNames?: Record<string, string>;
+}
+
+export interface LocalizationConfig {
+  catalogs: Record<string, AuthMessageCatalog>;
+  // Used when the request has no Accept-Language match
+  defaultLocale?: string;
+}
+
+export interface TwoFactorEnrollmentResult extends AuthResult {
+  secret?: string;
+  uri?: string;
+}
+
+export interface TwoFactorConfirmationResult extends AuthResult {
+  recoveryCodes?: string[];
+}
+
+export interface OAuthAuthorizationResult extends AuthResult {
+  // Send the browser here
+  url?: string;
+  state?: string;
+}
+
+export interface ApiKeyCreationResult extends AuthResult {
+  // The full key; it can't be retrieved again
+  key?: string;
+}
+
+export interface OAuthCallbackResult extends AuthResult {
+  account?: LinkedAccount;
+  // The app path passed when the flow started
+  redirectTo?: string;
 }
 
 export interface MiddlewareOptions {
   requireAuth?: boolean;
   roles?: string[];
+  permissions?: string[];
+  // Only restrict API keys: the key needs every scope, while logged-in users aren't limited by scopes
+  scopes?: string[];
+  requireVerified?: boolean;
+  // Replace the token's claims with the current user record
+  loadUser?: boolean;
 }
 
 export interface RequestWithUser {
   user?: User;
+  apiKey?: ApiKey;
   headers: {
     authorization?: string;
     [key: string]: any;